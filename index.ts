@@ -8,6 +8,7 @@ export { sendKookMessage, updateKookMessage, deleteKookMessage, sendKookCardMess
 export { uploadMediaKook, sendMediaKook } from "./src/media.js";
 export { probeKook } from "./src/probe.js";
 export { addReactionKook, removeReactionKook } from "./src/reactions.js";
+export { replayKookEvents } from "./src/replay.js";
 export { kookPlugin } from "./src/channel.js";
 
 const plugin = {
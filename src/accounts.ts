@@ -1,33 +1,85 @@
 import type { OpenClawConfig } from "openclaw/plugin-sdk";
 import { DEFAULT_ACCOUNT_ID } from "openclaw/plugin-sdk";
-import type { KookConfig, ResolvedKookAccount } from "./types.js";
+import type { KookAccountConfig, KookConfig, ResolvedKookAccount } from "./types.js";
 
 export function resolveKookToken(cfg?: KookConfig): string | null {
   const token = cfg?.token?.trim();
   return token || null;
 }
 
+/**
+ * Callers without an account in scope (e.g. a tool call with no accountId)
+ * get the default account.
+ */
+function normalizeKookAccountId(cfg: OpenClawConfig, accountId?: string | null): string {
+  return accountId?.trim() || resolveDefaultKookAccountId(cfg);
+}
+
+function resolveKookAccountEntry(
+  kookCfg: KookConfig | undefined,
+  accountId: string,
+): KookAccountConfig | undefined {
+  const accounts = kookCfg?.accounts ?? {};
+  const direct = accounts[accountId];
+  if (direct) return direct;
+
+  const lowered = accountId.toLowerCase();
+  const matchKey = Object.keys(accounts).find((key) => key.toLowerCase() === lowered);
+  return matchKey ? accounts[matchKey] : undefined;
+}
+
+/**
+ * Merge the top-level `channels.kook` settings with `channels.kook.accounts.<id>`.
+ * Named accounts never inherit the top-level token.
+ */
+export function resolveKookAccountConfig(
+  cfg: OpenClawConfig,
+  accountId?: string | null,
+): KookConfig | undefined {
+  const kookCfg = cfg.channels?.kook as KookConfig | undefined;
+  if (!kookCfg) return undefined;
+
+  const { accounts: _accounts, ...base } = kookCfg;
+  const id = normalizeKookAccountId(cfg, accountId);
+  const entry = resolveKookAccountEntry(kookCfg, id);
+
+  const inheritedToken = id === DEFAULT_ACCOUNT_ID ? base.token : undefined;
+  return { ...base, ...entry, token: entry?.token ?? inheritedToken } as KookConfig;
+}
+
 export function resolveKookAccount(params: {
   cfg: OpenClawConfig;
   accountId?: string | null;
 }): ResolvedKookAccount {
+  const accountId = normalizeKookAccountId(params.cfg, params.accountId);
   const kookCfg = params.cfg.channels?.kook as KookConfig | undefined;
-  const enabled = kookCfg?.enabled !== false;
-  const token = resolveKookToken(kookCfg);
+  const config = resolveKookAccountConfig(params.cfg, accountId) ?? ({} as KookConfig);
+  const token = resolveKookToken(config);
+  const enabled = kookCfg?.enabled !== false && config.enabled !== false;
 
   return {
-    accountId: params.accountId?.trim() || DEFAULT_ACCOUNT_ID,
+    accountId,
+    name: config.name?.trim() || undefined,
     enabled,
     configured: Boolean(token),
+    token: token ?? undefined,
+    config,
   };
 }
 
-export function listKookAccountIds(_cfg: OpenClawConfig): string[] {
-  return [DEFAULT_ACCOUNT_ID];
+export function listKookAccountIds(cfg: OpenClawConfig): string[] {
+  const kookCfg = cfg.channels?.kook as KookConfig | undefined;
+  const ids = Object.keys(kookCfg?.accounts ?? {}).filter(Boolean);
+  if (ids.length === 0) return [DEFAULT_ACCOUNT_ID];
+  if (resolveKookToken(kookCfg) && !ids.includes(DEFAULT_ACCOUNT_ID)) {
+    ids.unshift(DEFAULT_ACCOUNT_ID);
+  }
+  return ids;
 }
 
-export function resolveDefaultKookAccountId(_cfg: OpenClawConfig): string {
-  return DEFAULT_ACCOUNT_ID;
+export function resolveDefaultKookAccountId(cfg: OpenClawConfig): string {
+  const ids = listKookAccountIds(cfg);
+  return ids.includes(DEFAULT_ACCOUNT_ID) ? DEFAULT_ACCOUNT_ID : (ids[0] ?? DEFAULT_ACCOUNT_ID);
 }
 
 export function listEnabledKookAccounts(cfg: OpenClawConfig): ResolvedKookAccount[] {
@@ -5,12 +5,23 @@ import {
   readNumberParam,
   jsonResult,
 } from "openclaw/plugin-sdk";
-import type { KookConfig } from "./types.js";
-import { createKookClient } from "./client.js";
-import { sendKookMessage, updateKookMessage, deleteKookMessage } from "./send.js";
+import { resolveKookAccount } from "./accounts.js";
+import { resolveKookAccountContext } from "./context.js";
+import type { KookClient } from "./client.js";
+import type { KookOverwriteTarget } from "./types.js";
+import { isKookGroupActionAllowed, resolveKookModeratorRoles } from "./policy.js";
+import { appendKookAuditEntry } from "./audit.js";
+import {
+  sendKookMessage,
+  updateKookMessage,
+  deleteKookMessage,
+  sendKookCardMessage,
+} from "./send.js";
 import { addReactionKook, removeReactionKook } from "./reactions.js";
 import { sendMediaKook } from "./media.js";
-import { markdownToKMarkdown } from "./kmarkdown.js";
+import { renderKookOutboundText } from "./mentions.js";
+import { buildButtonCard, type KookButtonSpec } from "./card-builder.js";
+import { getKookDryRunSink } from "./reply-dispatcher.js";
 
 /**
  * Determine channel type from a target string.
@@ -27,12 +38,270 @@ function stripTargetPrefix(target: string): string {
   return target.replace(/^(channel|user):/, "");
 }
 
+const BUTTON_THEMES = new Set(["primary", "success", "danger", "warning", "info", "secondary"]);
+
+function readButtonSpec(raw: unknown): KookButtonSpec {
+  if (typeof raw === "string" && raw.trim()) {
+    return { text: raw.trim() };
+  }
+  if (!raw || typeof raw !== "object") {
+    throw new Error("Each button must be a string or an object with `text`.");
+  }
+  const entry = raw as Record<string, unknown>;
+  const text = typeof entry.text === "string" ? entry.text : typeof entry.label === "string" ? entry.label : "";
+  if (!text.trim()) {
+    throw new Error("Each button needs a non-empty `text`.");
+  }
+  // `callback_data` is what other channels call the returned value
+  const value = typeof entry.value === "string" ? entry.value : typeof entry.callback_data === "string" ? entry.callback_data : undefined;
+  const url = typeof entry.url === "string" && entry.url.trim() ? entry.url.trim() : undefined;
+  const theme = typeof entry.theme === "string" && BUTTON_THEMES.has(entry.theme)
+    ? (entry.theme as KookButtonSpec["theme"])
+    : undefined;
+  return { text: text.trim(), value, url, theme };
+}
+
+/**
+ * Read the `buttons` param: rows of buttons (`[[{ text, value }]]`), a flat
+ * list (one row), or the same as a JSON string.
+ */
+function readButtonRows(params: Record<string, unknown>): KookButtonSpec[][] | undefined {
+  let raw = params.buttons;
+  if (raw === undefined || raw === null || raw === "") return undefined;
+  if (typeof raw === "string") {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      throw new Error("`buttons` must be an array of button rows.");
+    }
+  }
+  if (!Array.isArray(raw)) {
+    throw new Error("`buttons` must be an array of button rows.");
+  }
+
+  const rows = raw.some((item) => Array.isArray(item))
+    ? raw.map((row) => (Array.isArray(row) ? row : [row]))
+    : [raw];
+  const parsed = rows.map((row) => row.map(readButtonSpec)).filter((row) => row.length > 0);
+  return parsed.length > 0 ? parsed : undefined;
+}
+
+const ROLE_ACTIONS = new Set(["role-list", "role-create", "role-grant", "role-revoke"]);
+const CHANNEL_ACTIONS = new Set([
+  "channel-create",
+  "channel-edit",
+  "channel-delete",
+  "channel-permissions",
+  "channel-permission-set",
+  "channel-permission-remove",
+]);
+const MODERATION_ACTIONS = new Set(["mute", "kick", "ban", "unban"]);
+// Actions that only look things up, and may run during a replay
+const READ_ACTIONS = new Set([
+  "read",
+  "channel-info",
+  "channel-list",
+  "member-info",
+  "role-list",
+  "channel-permissions",
+]);
+
+// guild-mute types; text mutes are a send_messages deny on one channel
+const VOICE_MUTE_TYPES: Record<string, 1 | 2> = {
+  voice: 1,
+  headset: 2,
+};
+
+// Slow mode intervals KOOK accepts, in seconds
+const SLOW_MODE_SECONDS = [0, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600, 7200, 21600];
+
+const CHANNEL_KINDS: Record<string, { type: number; isCategory?: boolean }> = {
+  text: { type: 1 },
+  voice: { type: 2 },
+  category: { type: 1, isCategory: true },
+};
+
+// Permission bits that matter for channel overwrites
+const CHANNEL_PERMISSIONS: Record<string, number> = {
+  manage_channels: 1 << 5,
+  view_channel: 1 << 11,
+  send_messages: 1 << 12,
+  manage_messages: 1 << 13,
+  upload_files: 1 << 14,
+  connect: 1 << 15,
+  manage_voice: 1 << 16,
+  mention_everyone: 1 << 17,
+  add_reactions: 1 << 18,
+  speak: 1 << 23,
+};
+
+/**
+ * Guild management actions are off unless their gate is enabled. They are
+ * checked again when called, not only left out of the action list, and the
+ * target guild's `tools` policy can still deny them. A `channelId` entry
+ * under the guild overrides the guild's policy.
+ */
+function assertGuildActionAllowed(params: {
+  cfg: OpenClawConfig;
+  accountId?: string | null;
+  action: string;
+  gate: "roles" | "channels" | "moderation";
+  guildId: string;
+  channelId?: string;
+}): void {
+  const { action, gate, guildId, channelId } = params;
+  const kookCfg = resolveKookAccount({ cfg: params.cfg, accountId: params.accountId }).config;
+  if (!createActionGate(kookCfg.actions)(gate, false)) {
+    throw new Error(`KOOK action "${action}" is disabled. Enable it with actions.${gate}.`);
+  }
+  if (!isKookGroupActionAllowed({ cfg: kookCfg, groupId: guildId, channelId, action, gate })) {
+    const where = channelId ? `channel ${channelId} of guild ${guildId}` : `guild ${guildId}`;
+    throw new Error(`KOOK action "${action}" is not allowed in ${where} by its tools policy.`);
+  }
+}
+
+function normalizeUserId(raw: string): string {
+  return raw.replace(/^user:/, "").replace(/^\(met\)(.+)\(met\)$/, "$1");
+}
+
+/**
+ * Role from `roleId`, or from `role` by exact (case-insensitive) name.
+ */
+async function resolveRoleId(
+  client: KookClient,
+  guildId: string,
+  params: Record<string, unknown>,
+): Promise<number> {
+  const roleId = readNumberParam(params, "roleId", { integer: true });
+  if (roleId !== undefined) return roleId;
+
+  const name = readStringParam(params, "role")?.replace(/^@/, "").trim();
+  if (!name) {
+    throw new Error("roleId or role (the role name) is required.");
+  }
+  // The implicit everyone role is not in guild-role/list
+  if (name.toLowerCase() === "everyone") return 0;
+
+  const { items } = await client.listGuildRoles(guildId, { pageSize: 100 });
+  const lowered = name.toLowerCase();
+  const matches = (items ?? []).filter((role) => role.name.toLowerCase() === lowered);
+  if (matches.length === 0) {
+    throw new Error(`No role named "${name}" in guild ${guildId}. Use role-list to see the roles.`);
+  }
+  if (matches.length > 1) {
+    const ids = matches.map((role) => role.role_id).join(", ");
+    throw new Error(`Several roles are named "${name}" (${ids}). Pass roleId instead.`);
+  }
+  return matches[0].role_id;
+}
+
+/**
+ * Permission bits from a number, or a list of names such as
+ * `["view_channel", "send_messages"]`.
+ */
+function readPermissionBits(params: Record<string, unknown>, key: string): number | undefined {
+  const raw = params[key];
+  if (raw === undefined || raw === null || raw === "") return undefined;
+  if (typeof raw === "number" && Number.isInteger(raw) && raw >= 0) return raw;
+  if (typeof raw === "string" && /^\d+$/.test(raw.trim())) return Number(raw.trim());
+
+  const names = Array.isArray(raw) ? raw : String(raw).split(",");
+  let bits = 0;
+  for (const entry of names) {
+    const name = String(entry).trim().toLowerCase();
+    const bit = CHANNEL_PERMISSIONS[name];
+    if (bit === undefined) {
+      const known = Object.keys(CHANNEL_PERMISSIONS).join(", ");
+      throw new Error(`Unknown permission "${name}" in ${key}. Use a bitmask or one of: ${known}.`);
+    }
+    bits |= bit;
+  }
+  return bits;
+}
+
+function readChannelId(params: Record<string, unknown>): string {
+  const raw = readStringParam(params, "channelId") ?? readStringParam(params, "to", { required: true })!;
+  return stripTargetPrefix(raw);
+}
+
+/**
+ * The channel whose settings apply to a management action: the one the
+ * request came from, else the one it acts on. DMs have none.
+ */
+function resolveActionChannelId(
+  toolContext: { currentChannelId?: string } | undefined,
+  targetChannelId?: string,
+): string | undefined {
+  const current = toolContext?.currentChannelId?.trim();
+  if (current && !current.startsWith("user:")) return stripTargetPrefix(current);
+  return targetChannelId;
+}
+
+async function resolveChannelGuildId(client: KookClient, channelId: string): Promise<string> {
+  const channel = await client.getChannel(channelId);
+  if (!channel.guild_id) {
+    throw new Error(`Channel ${channelId} is not a guild channel.`);
+  }
+  return channel.guild_id;
+}
+
+/**
+ * Who a permission overwrite is for: `userId`, or a role by `roleId` / `role`.
+ */
+async function resolveOverwriteTarget(
+  client: KookClient,
+  guildId: string,
+  params: Record<string, unknown>,
+): Promise<KookOverwriteTarget> {
+  const userId = readStringParam(params, "userId");
+  if (userId) return { type: "user_id", value: normalizeUserId(userId) };
+  return { type: "role_id", value: await resolveRoleId(client, guildId, params) };
+}
+
+/**
+ * Moderation needs a requester (the sender whose message started the turn)
+ * holding one of the guild's `moderatorRoles`, given by ID or name.
+ */
+async function assertModerator(params: {
+  client: KookClient;
+  cfg: OpenClawConfig;
+  accountId?: string | null;
+  guildId: string;
+  channelId?: string;
+  requesterId?: string;
+}): Promise<void> {
+  const { client, guildId, channelId, requesterId } = params;
+  const kookCfg = resolveKookAccount({ cfg: params.cfg, accountId: params.accountId }).config;
+  const allowed = resolveKookModeratorRoles({ cfg: kookCfg, groupId: guildId, channelId });
+  if (allowed.length === 0) {
+    throw new Error(`No moderatorRoles are configured for guild ${guildId}, so nobody may moderate.`);
+  }
+  if (!requesterId) {
+    throw new Error("Moderation actions can only be taken on behalf of a KOOK user.");
+  }
+
+  const member = await client.getUser(requesterId, guildId);
+  const memberRoles = new Set(member.roles ?? []);
+  const allowedIds = new Set(allowed.filter((entry) => /^\d+$/.test(entry)).map(Number));
+  const allowedNames = allowed.filter((entry) => !/^\d+$/.test(entry)).map((entry) => entry.toLowerCase());
+  if (allowedNames.length > 0) {
+    const { items } = await client.listGuildRoles(guildId, { pageSize: 100 });
+    for (const role of items ?? []) {
+      if (allowedNames.includes(role.name.toLowerCase())) allowedIds.add(role.role_id);
+    }
+  }
+  if (![...memberRoles].some((roleId) => allowedIds.has(roleId))) {
+    throw new Error(`User ${requesterId} has no moderator role in guild ${guildId}.`);
+  }
+}
+
 export const kookMessageActions = {
-  listActions: ({ cfg }: { cfg: OpenClawConfig }): string[] => {
-    const kookCfg = cfg.channels?.kook as KookConfig | undefined;
-    if (!kookCfg?.token) return [];
+  listActions: ({ cfg, accountId }: { cfg: OpenClawConfig; accountId?: string | null }): string[] => {
+    const account = resolveKookAccount({ cfg, accountId });
+    if (!account.token) return [];
+    const kookCfg = account.config;
 
-    const gate = createActionGate((kookCfg as Record<string, unknown>).actions as Record<string, unknown> | undefined);
+    const gate = createActionGate(kookCfg.actions);
     const actions = new Set<string>(["send"]);
 
     if (gate("reactions")) {
@@ -50,6 +319,15 @@ export const kookMessageActions = {
     if (gate("memberInfo")) {
       actions.add("member-info");
     }
+    if (gate("roles", false)) {
+      for (const action of ROLE_ACTIONS) actions.add(action);
+    }
+    if (gate("channels", false)) {
+      for (const action of CHANNEL_ACTIONS) actions.add(action);
+    }
+    if (gate("moderation", false)) {
+      for (const action of MODERATION_ACTIONS) actions.add(action);
+    }
 
     return Array.from(actions);
   },
@@ -67,17 +345,41 @@ export const kookMessageActions = {
     action,
     params,
     cfg,
-    accountId: _accountId,
+    accountId,
+    requesterSenderId,
+    toolContext,
+    sessionKey,
+    dryRun,
   }: {
     action: string;
     params: Record<string, unknown>;
     cfg: OpenClawConfig;
-    accountId?: string;
+    accountId?: string | null;
+    /** Trusted sender of the inbound message, injected by the host */
+    requesterSenderId?: string | null;
+    /** The conversation the action was requested from, if any */
+    toolContext?: { currentChannelId?: string };
+    sessionKey?: string | null;
+    dryRun?: boolean;
   }) => {
-    const kookCfg = cfg.channels?.kook as KookConfig | undefined;
-    if (!kookCfg?.token) throw new Error("KOOK channel not configured");
+    // A replay must not change anything on KOOK: its writes go to the replay's sink
+    const dryRunSink = getKookDryRunSink(sessionKey);
+    if ((dryRunSink || dryRun || sessionKey?.endsWith(":replay")) && !READ_ACTIONS.has(action)) {
+      const target = readStringParam(params, "to")
+        ?? readStringParam(params, "channelId")
+        ?? readStringParam(params, "guildId")
+        ?? "";
+      dryRunSink?.({
+        kind: `action:${action}`,
+        chatId: stripTargetPrefix(target),
+        channelType: resolveChannelType(target),
+        content: JSON.stringify(params),
+      });
+      return jsonResult({ ok: true, dryRun: true, action });
+    }
 
-    const client = createKookClient(kookCfg);
+    const context = resolveKookAccountContext({ cfg, accountId });
+    const { client } = context;
 
     // --- send ---
     if (action === "send") {
@@ -89,12 +391,33 @@ export const kookMessageActions = {
       const messageType = explicitType && explicitType > 0 ? explicitType : 9;
       const channelType = resolveChannelType(to);
       const targetId = stripTargetPrefix(to);
+      const buttonRows = readButtonRows(params);
+      const render = (text: string) =>
+        renderKookOutboundText({ cfg, accountId, channelType, to: targetId, markdown: text });
+
+      // Buttons: text and buttons go out as one card, after any media
+      if (buttonRows) {
+        if (mediaUrl) {
+          await sendMediaKook({ cfg, accountId, channelType, to: targetId, mediaUrl });
+        }
+        const cards = buildButtonCard(message ? await render(message) : undefined, buttonRows);
+        const result = await sendKookCardMessage({
+          cfg,
+          accountId,
+          channelType,
+          to: targetId,
+          cards,
+          quote: replyTo ?? undefined,
+        });
+        return jsonResult({ ok: true, messageId: result.msgId });
+      }
 
       // Send media if provided
       if (mediaUrl) {
         try {
           const mediaResult = await sendMediaKook({
             cfg,
+            accountId,
             channelType,
             to: targetId,
             mediaUrl,
@@ -103,9 +426,10 @@ export const kookMessageActions = {
 
           // If there's text and media was sent separately, send text too
           if (message?.trim() && mediaUrl) {
-            const content = messageType === 10 ? message : markdownToKMarkdown(message);
+            const content = messageType === 10 ? message : await render(message);
             await sendKookMessage({
               cfg,
+              accountId,
               channelType,
               to: targetId,
               content,
@@ -118,9 +442,10 @@ export const kookMessageActions = {
         } catch (err) {
           // Fallback: send media URL as text
           const fallback = message ? `${message}\n📎 ${mediaUrl}` : `📎 ${mediaUrl}`;
-          const content = markdownToKMarkdown(fallback);
+          const content = await render(fallback);
           const result = await sendKookMessage({
             cfg,
+            accountId,
             channelType,
             to: targetId,
             content,
@@ -132,9 +457,10 @@ export const kookMessageActions = {
       }
 
       // Text-only send
-      const content = messageType === 10 ? (message ?? "") : markdownToKMarkdown(message ?? "");
+      const content = messageType === 10 ? (message ?? "") : await render(message ?? "");
       const result = await sendKookMessage({
         cfg,
+        accountId,
         channelType,
         to: targetId,
         content,
@@ -155,6 +481,7 @@ export const kookMessageActions = {
       if (remove) {
         await removeReactionKook({
           cfg,
+          accountId,
           messageId,
           emoji,
           channelType,
@@ -164,6 +491,7 @@ export const kookMessageActions = {
 
       await addReactionKook({
         cfg,
+        accountId,
         messageId,
         emoji,
         channelType,
@@ -208,13 +536,38 @@ export const kookMessageActions = {
       const messageId = readStringParam(params, "messageId", { required: true })!;
       const message = readStringParam(params, "message", { required: true })!;
       const channelId = readStringParam(params, "channelId") ?? readStringParam(params, "to");
-      const channelType = channelId ? resolveChannelType(channelId) : "GROUP";
-      const content = markdownToKMarkdown(message);
+      let channelType = channelId ? resolveChannelType(channelId) : "GROUP";
+      let targetId = channelId ? stripTargetPrefix(channelId) : undefined;
+
+      // The target's mention policy and names apply, so find where the message is
+      if (!targetId) {
+        const sent = context.caches.sentMessages.get(messageId);
+        if (sent) {
+          targetId = sent.targetId;
+          channelType = sent.channelType;
+        } else {
+          const view = (await client.getMessage(messageId)) as { channel_id?: string } | undefined;
+          targetId = view?.channel_id || undefined;
+        }
+      }
+      if (!targetId) {
+        throw new Error(`Could not find the channel of message ${messageId}; pass channelId.`);
+      }
+
+      const content = await renderKookOutboundText({
+        cfg,
+        accountId,
+        channelType,
+        to: targetId,
+        markdown: message,
+      });
 
       await updateKookMessage({
         cfg,
+        accountId,
         channelType,
         msgId: messageId,
+        to: targetId,
         content,
       });
       return jsonResult({ ok: true, messageId });
@@ -228,6 +581,7 @@ export const kookMessageActions = {
 
       await deleteKookMessage({
         cfg,
+        accountId,
         channelType,
         msgId: messageId,
       });
@@ -239,8 +593,8 @@ export const kookMessageActions = {
       const channelId = readStringParam(params, "channelId") ?? readStringParam(params, "to", { required: true })!;
       const targetId = stripTargetPrefix(channelId);
 
-      const channelData = await client.get<unknown>("/channel/view", { target_id: targetId });
-      return jsonResult({ ok: true, channel: channelData });
+      const channel = await client.getChannel(targetId);
+      return jsonResult({ ok: true, channel });
     }
 
     // --- channel-list ---
@@ -259,6 +613,253 @@ export const kookMessageActions = {
       return jsonResult({ ok: true, user });
     }
 
+    if (ROLE_ACTIONS.has(action)) {
+      const guildId = readStringParam(params, "guildId", { required: true })!;
+      const channelId = resolveActionChannelId(toolContext);
+      assertGuildActionAllowed({ cfg, accountId, action, gate: "roles", guildId, channelId });
+
+      // --- role-list ---
+      if (action === "role-list") {
+        const result = await client.listGuildRoles(guildId, { pageSize: 100 });
+        return jsonResult({ ok: true, roles: result.items ?? [] });
+      }
+
+      // --- role-create ---
+      if (action === "role-create") {
+        const name = readStringParam(params, "name", { required: true })!;
+        const color = readNumberParam(params, "color", { integer: true });
+        const permissions = readNumberParam(params, "permissions", { integer: true });
+        const hoist = typeof params.hoist === "boolean" ? params.hoist : undefined;
+        const mentionable = typeof params.mentionable === "boolean" ? params.mentionable : undefined;
+
+        let role = await client.createGuildRole(guildId, name);
+        // guild-role/create only takes a name; the rest is set with an update
+        if ([color, permissions, hoist, mentionable].some((value) => value !== undefined)) {
+          role = await client.updateGuildRole(guildId, role.role_id, {
+            color,
+            permissions,
+            hoist,
+            mentionable,
+          });
+        }
+        return jsonResult({ ok: true, role });
+      }
+
+      // --- role-grant / role-revoke ---
+      const userId = normalizeUserId(readStringParam(params, "userId", { required: true })!);
+      const roleId = await resolveRoleId(client, guildId, params);
+      const result = action === "role-grant"
+        ? await client.grantGuildRole(guildId, userId, roleId)
+        : await client.revokeGuildRole(guildId, userId, roleId);
+      return jsonResult({ ok: true, guildId, userId, roleId, roles: result.roles });
+    }
+
+    // --- channel-create ---
+    if (action === "channel-create") {
+      const guildId = readStringParam(params, "guildId", { required: true })!;
+      const channelId = resolveActionChannelId(toolContext);
+      assertGuildActionAllowed({ cfg, accountId, action, gate: "channels", guildId, channelId });
+
+      const name = readStringParam(params, "name", { required: true })!;
+      const kindName = (readStringParam(params, "kind") ?? "text").toLowerCase();
+      const kind = CHANNEL_KINDS[kindName];
+      if (!kind) {
+        throw new Error(`kind must be one of: ${Object.keys(CHANNEL_KINDS).join(", ")}.`);
+      }
+      const parentId = readStringParam(params, "parentId");
+      const limitAmount = readNumberParam(params, "userLimit", { integer: true });
+
+      const channel = await client.createChannel(guildId, {
+        name,
+        type: kind.type,
+        isCategory: kind.isCategory,
+        parentId: parentId ? stripTargetPrefix(parentId) : undefined,
+        limitAmount,
+      });
+      return jsonResult({ ok: true, channel });
+    }
+
+    if (CHANNEL_ACTIONS.has(action)) {
+      const channelId = readChannelId(params);
+      const guildId = await resolveChannelGuildId(client, channelId);
+      assertGuildActionAllowed({
+        cfg,
+        accountId,
+        action,
+        gate: "channels",
+        guildId,
+        channelId: resolveActionChannelId(toolContext, channelId),
+      });
+
+      // --- channel-edit ---
+      if (action === "channel-edit") {
+        const slowModeSeconds = readNumberParam(params, "slowModeSeconds", { integer: true });
+        if (slowModeSeconds !== undefined && !SLOW_MODE_SECONDS.includes(slowModeSeconds)) {
+          throw new Error(`slowModeSeconds must be one of: ${SLOW_MODE_SECONDS.join(", ")}.`);
+        }
+        const parentId = readStringParam(params, "parentId");
+
+        const channel = await client.updateChannel(channelId, {
+          name: readStringParam(params, "name"),
+          topic: readStringParam(params, "topic", { allowEmpty: true }),
+          slowMode: slowModeSeconds !== undefined ? slowModeSeconds * 1000 : undefined,
+          parentId: parentId ? stripTargetPrefix(parentId) : undefined,
+          limitAmount: readNumberParam(params, "userLimit", { integer: true }),
+        });
+        return jsonResult({ ok: true, channel });
+      }
+
+      // --- channel-delete ---
+      if (action === "channel-delete") {
+        await client.deleteChannel(channelId);
+        return jsonResult({ ok: true, channelId });
+      }
+
+      // --- channel-permissions ---
+      if (action === "channel-permissions") {
+        const permissions = await client.getChannelPermissions(channelId);
+        return jsonResult({ ok: true, channelId, ...permissions });
+      }
+
+      const target = await resolveOverwriteTarget(client, guildId, params);
+
+      // --- channel-permission-remove ---
+      if (action === "channel-permission-remove") {
+        await client.deleteChannelPermission(channelId, target);
+        return jsonResult({ ok: true, channelId, target });
+      }
+
+      // --- channel-permission-set ---
+      const allow = readPermissionBits(params, "allow");
+      const deny = readPermissionBits(params, "deny");
+      if (allow === undefined && deny === undefined) {
+        throw new Error("channel-permission-set needs allow and/or deny.");
+      }
+
+      // channel-role/update only changes an existing overwrite
+      const existing = await client.getChannelPermissions(channelId);
+      const exists = target.type === "role_id"
+        ? existing.permission_overwrites.some((entry) => entry.role_id === target.value)
+        : existing.permission_users.some((entry) => entry.user.id === target.value);
+      if (!exists) {
+        await client.createChannelPermission(channelId, target);
+      }
+      const result = await client.updateChannelPermission(channelId, target, { allow, deny });
+      return jsonResult({ ok: true, channelId, target, allow: result.allow, deny: result.deny });
+    }
+
+    if (MODERATION_ACTIONS.has(action)) {
+      const guildId = readStringParam(params, "guildId", { required: true })!;
+      const userId = normalizeUserId(readStringParam(params, "userId", { required: true })!);
+      const requesterId = requesterSenderId ? normalizeUserId(requesterSenderId.replace(/^kook:/, "")) : undefined;
+      const details: Record<string, unknown> = {};
+      // Every attempt is audited, including refused and failed ones
+      const audit = (outcome: "ok" | "denied" | "failed", err?: unknown) =>
+        appendKookAuditEntry({
+          accountId: context.accountId,
+          action,
+          guildId,
+          targetId: userId,
+          requesterId,
+          outcome,
+          details,
+          error: err === undefined ? undefined : String(err instanceof Error ? err.message : err),
+        });
+
+      const targetChannelId = readStringParam(params, "channelId");
+      const channelId = resolveActionChannelId(
+        toolContext,
+        targetChannelId ? stripTargetPrefix(targetChannelId) : undefined,
+      );
+
+      try {
+        assertGuildActionAllowed({ cfg, accountId, action, gate: "moderation", guildId, channelId });
+        await assertModerator({ client, cfg, accountId, guildId, channelId, requesterId });
+      } catch (err) {
+        await audit("denied", err);
+        throw err;
+      }
+
+      try {
+        let result: Record<string, unknown>;
+
+        // --- mute ---
+        if (action === "mute") {
+          const kind = (readStringParam(params, "kind") ?? "voice").toLowerCase();
+          const remove = typeof params.remove === "boolean" ? params.remove : false;
+          details.kind = kind;
+          details.remove = remove;
+
+          if (kind === "text") {
+            const channelId = readChannelId(params);
+            details.channelId = channelId;
+            if ((await resolveChannelGuildId(client, channelId)) !== guildId) {
+              throw new Error(`Channel ${channelId} is not in guild ${guildId}.`);
+            }
+            const target: KookOverwriteTarget = { type: "user_id", value: userId };
+            const existing = await client.getChannelPermissions(channelId);
+            const current = existing.permission_users.find((entry) => entry.user.id === userId);
+            const sendBit = CHANNEL_PERMISSIONS.send_messages;
+            // Unmuting someone without an overwrite has nothing to undo
+            if (current || !remove) {
+              if (!current) {
+                await client.createChannelPermission(channelId, target);
+              }
+              // Keep the rest of the user's overwrite as it is
+              const allow = current?.allow ?? 0;
+              const deny = current?.deny ?? 0;
+              await client.updateChannelPermission(channelId, target, remove
+                ? { allow, deny: deny & ~sendBit }
+                : { allow: allow & ~sendBit, deny: deny | sendBit });
+            }
+            result = { ok: true, action: remove ? "unmuted" : "muted", kind, guildId, channelId, userId };
+          } else {
+            const type = VOICE_MUTE_TYPES[kind];
+            if (!type) {
+              throw new Error(`kind must be one of: ${[...Object.keys(VOICE_MUTE_TYPES), "text"].join(", ")}.`);
+            }
+            if (remove) {
+              await client.deleteGuildMute(guildId, userId, type);
+            } else {
+              await client.createGuildMute(guildId, userId, type);
+            }
+            result = { ok: true, action: remove ? "unmuted" : "muted", kind, guildId, userId };
+          }
+        }
+
+        // --- kick ---
+        else if (action === "kick") {
+          await client.kickGuildMember(guildId, userId);
+          result = { ok: true, action: "kicked", guildId, userId };
+        }
+
+        // --- ban ---
+        else if (action === "ban") {
+          const remark = readStringParam(params, "reason");
+          const deleteMessageDays = readNumberParam(params, "deleteMessageDays", { integer: true });
+          if (deleteMessageDays !== undefined && (deleteMessageDays < 0 || deleteMessageDays > 7)) {
+            throw new Error("deleteMessageDays must be between 0 and 7.");
+          }
+          details.reason = remark;
+          details.deleteMessageDays = deleteMessageDays;
+          await client.createBlacklist(guildId, userId, { remark, deleteMessageDays });
+          result = { ok: true, action: "banned", guildId, userId };
+        }
+
+        // --- unban ---
+        else {
+          await client.deleteBlacklist(guildId, userId);
+          result = { ok: true, action: "unbanned", guildId, userId };
+        }
+
+        await audit("ok");
+        return jsonResult(result);
+      } catch (err) {
+        await audit("failed", err);
+        throw err;
+      }
+    }
+
     throw new Error(`Action "${action}" is not supported for KOOK.`);
   },
 };
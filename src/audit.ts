@@ -0,0 +1,57 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+import { getKookRuntime } from "./runtime.js";
+
+/**
+ * Moderation audit log.
+ *
+ * Every moderation action the agent attempts (mute, kick, ban, unban) is
+ * appended to a JSONL file, including refused and failed ones, so admins can
+ * see who asked for what. Writing is best-effort: a failed write is logged
+ * and never blocks the action.
+ */
+
+export type KookAuditEntry = {
+  at: string;
+  accountId: string;
+  action: string;
+  guildId: string;
+  /** User the action was applied to */
+  targetId: string;
+  /** KOOK user whose message led to the action */
+  requesterId?: string;
+  /** "ok", "denied" (not allowed to moderate) or "failed" (API error) */
+  outcome: "ok" | "denied" | "failed";
+  details?: Record<string, unknown>;
+  error?: string;
+};
+
+export function resolveAuditLogPath(accountId: string): string {
+  const stateDir = getKookRuntime().state.resolveStateDir();
+  const safeId = accountId.replace(/[^a-zA-Z0-9_-]/g, "_");
+  return path.join(stateDir, "kook", `audit-${safeId}.jsonl`);
+}
+
+// Serialise writes per file so entries never interleave
+const writes = new Map<string, Promise<void>>();
+
+export function appendKookAuditEntry(
+  entry: Omit<KookAuditEntry, "at">,
+  opts?: { filePath?: string; log?: (...args: unknown[]) => void },
+): Promise<void> {
+  const filePath = opts?.filePath ?? resolveAuditLogPath(entry.accountId);
+  const line = `${JSON.stringify({ at: new Date().toISOString(), ...entry })}\n`;
+  const log = opts?.log ?? console.error;
+
+  const previous = writes.get(filePath) ?? Promise.resolve();
+  const next = previous.then(async () => {
+    try {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await appendFile(filePath, line, "utf-8");
+    } catch (err) {
+      log(`kook: failed to write audit log ${filePath}: ${String(err)}`);
+    }
+  });
+  writes.set(filePath, next);
+  return next;
+}
@@ -11,6 +11,30 @@
 export type KookCardTheme = "primary" | "success" | "danger" | "warning" | "info" | "secondary" | "none";
 export type KookCardSize = "sm" | "lg";
 
+/**
+ * `return-val` buttons send a `message_btn_click` system event back to the bot;
+ * `link` buttons open `value` as a URL.
+ */
+export type KookCardButton = {
+  type: "button";
+  theme?: Exclude<KookCardTheme, "none">;
+  value: string;
+  click: "return-val" | "link";
+  text: { type: "plain-text"; content: string };
+};
+
+export type KookButtonSpec = {
+  text: string;
+  /** Returned in the click event; defaults to `text` */
+  value?: string;
+  /** Makes a link button instead of a return-val button */
+  url?: string;
+  theme?: Exclude<KookCardTheme, "none">;
+};
+
+// KOOK allows at most 4 buttons per action-group
+const MAX_BUTTONS_PER_GROUP = 4;
+
 export type KookCardModule =
   | { type: "header"; text: { type: "plain-text"; content: string } }
   | { type: "section"; text: { type: "kmarkdown" | "plain-text"; content: string }; accessory?: unknown; mode?: string }
@@ -18,7 +42,7 @@ export type KookCardModule =
   | { type: "context"; elements: Array<{ type: "kmarkdown" | "plain-text"; content: string }> }
   | { type: "image-group"; elements: Array<{ type: "image"; src: string; alt?: string }> }
   | { type: "container"; elements: Array<{ type: "image"; src: string; alt?: string }> }
-  | { type: "action-group"; elements: unknown[] }
+  | { type: "action-group"; elements: KookCardButton[] }
   | { type: "file"; title: string; src: string; size?: number }
   | { type: "audio"; title: string; src: string; cover?: string }
   | { type: "video"; title: string; src: string }
@@ -92,6 +116,51 @@ export function buildMultiSectionCard(sections: string[]): KookCard[] {
   }];
 }
 
+function toCardButton(spec: KookButtonSpec): KookCardButton {
+  return {
+    type: "button",
+    theme: spec.theme ?? "primary",
+    value: spec.url ?? spec.value ?? spec.text,
+    click: spec.url ? "link" : "return-val",
+    text: { type: "plain-text", content: spec.text },
+  };
+}
+
+/**
+ * Build a card with optional text followed by rows of buttons.
+ * Rows longer than 4 buttons are wrapped.
+ */
+export function buildButtonCard(
+  text: string | undefined,
+  rows: KookButtonSpec[][],
+  opts?: { theme?: KookCardTheme },
+): KookCard[] {
+  const modules: KookCardModule[] = [];
+
+  if (text?.trim()) {
+    modules.push({
+      type: "section",
+      text: { type: "kmarkdown", content: text },
+    });
+  }
+
+  for (const row of rows) {
+    for (let i = 0; i < row.length && modules.length < 50; i += MAX_BUTTONS_PER_GROUP) {
+      modules.push({
+        type: "action-group",
+        elements: row.slice(i, i + MAX_BUTTONS_PER_GROUP).map(toCardButton),
+      });
+    }
+  }
+
+  return [{
+    type: "card",
+    theme: opts?.theme ?? "secondary",
+    size: "lg",
+    modules,
+  }];
+}
+
 /**
  * Serialize Card array to JSON string for KOOK message content.
  */
@@ -1,8 +1,13 @@
 import type { ChannelPlugin, OpenClawConfig } from "openclaw/plugin-sdk";
 import { DEFAULT_ACCOUNT_ID, PAIRING_APPROVED_MESSAGE } from "openclaw/plugin-sdk";
 import type { ResolvedKookAccount, KookConfig } from "./types.js";
-import { resolveKookAccount, resolveKookToken } from "./accounts.js";
+import {
+  resolveKookAccount,
+  listKookAccountIds,
+  resolveDefaultKookAccountId,
+} from "./accounts.js";
 import { kookOutbound } from "./outbound.js";
+import { removeKookAccountContext } from "./context.js";
 import { probeKook } from "./probe.js";
 import { resolveKookGroupToolPolicy } from "./policy.js";
 import { normalizeKookTarget, looksLikeKookId } from "./targets.js";
@@ -15,6 +20,8 @@ import {
 } from "./directory.js";
 import { kookOnboardingAdapter } from "./onboarding.js";
 import { kookMessageActions } from "./actions.js";
+import { DEFAULT_WEBHOOK_PORT } from "./webhook.js";
+import { KookConfigJsonSchema } from "./config-schema.js";
 
 const meta = {
   id: "kook",
@@ -27,15 +34,55 @@ const meta = {
   order: 75,
 } as const;
 
+function isDefaultAccount(accountId?: string | null): boolean {
+  return !accountId || accountId === DEFAULT_ACCOUNT_ID;
+}
+
+/**
+ * Patch `channels.kook` (default account) or `channels.kook.accounts.<id>`.
+ */
+function patchKookAccountConfig(
+  cfg: OpenClawConfig,
+  accountId: string | null | undefined,
+  patch: Record<string, unknown>,
+): OpenClawConfig {
+  const kookCfg = (cfg.channels?.kook ?? {}) as KookConfig;
+  if (isDefaultAccount(accountId) && !kookCfg.accounts?.[DEFAULT_ACCOUNT_ID]) {
+    return {
+      ...cfg,
+      channels: {
+        ...cfg.channels,
+        kook: { ...kookCfg, ...patch },
+      },
+    };
+  }
+
+  const id = accountId || DEFAULT_ACCOUNT_ID;
+  return {
+    ...cfg,
+    channels: {
+      ...cfg.channels,
+      kook: {
+        ...kookCfg,
+        accounts: {
+          ...kookCfg.accounts,
+          [id]: { ...kookCfg.accounts?.[id], ...patch },
+        },
+      },
+    },
+  };
+}
+
 export const kookPlugin: ChannelPlugin<ResolvedKookAccount> = {
   id: "kook",
   meta: { ...meta },
   pairing: {
     idLabel: "kookUserId",
     normalizeAllowEntry: (entry) => entry.replace(/^(kook|user):/i, ""),
-    notifyApproval: async ({ cfg, id }) => {
+    notifyApproval: async ({ cfg, id, accountId }) => {
       await sendKookMessage({
         cfg,
+        accountId,
         channelType: "PERSON",
         to: id,
         content: PAIRING_APPROVED_MESSAGE,
@@ -56,6 +103,10 @@ export const kookPlugin: ChannelPlugin<ResolvedKookAccount> = {
     messageToolHints: () => [
       "- KOOK targeting: omit `target` to reply to the current conversation (auto-inferred). Explicit targets: `user:userId` or `channel:channelId`.",
       "- KOOK supports KMarkdown (similar to standard Markdown) and Card messages for rich content.",
+      "- KOOK buttons: `send` accepts `buttons` as rows of `{ text, value }` (or `{ text, url }` for links). A click comes back as a new message `[Button click] clicked button \"<value>\" on message <id>` from the user who clicked.",
+      "- KOOK roles (if enabled): `role-grant`/`role-revoke` take `guildId`, `userId` and either `roleId` or `role` (the role name); `role-list` shows a guild's roles.",
+      "- KOOK channels (if enabled): `channel-create` takes `guildId`, `name`, `kind` (text/voice/category), optional `parentId` and `userLimit`; `channel-edit` takes `channelId` plus `name`, `topic`, `slowModeSeconds` or `parentId`. `channel-permission-set` takes `channelId`, a `userId` or role, and `allow`/`deny` as permission names (view_channel, send_messages, connect, speak, ...).",
+      "- KOOK moderation (if enabled): `mute`, `kick`, `ban`, `unban` take `guildId` and `userId`. `mute` takes `kind` (voice/headset, or text with a `channelId`) and `remove: true` to unmute; `ban` takes optional `reason` and `deleteMessageDays` (0-7). Only users with a configured moderator role may ask for these.",
     ],
   },
   groups: {
@@ -63,49 +114,38 @@ export const kookPlugin: ChannelPlugin<ResolvedKookAccount> = {
   },
   reload: { configPrefixes: ["channels.kook"] },
   configSchema: {
-    schema: {
-      type: "object",
-      additionalProperties: false,
-      properties: {
-        enabled: { type: "boolean" },
-        token: { type: "string" },
-        connectionMode: { type: "string", enum: ["websocket", "webhook"] },
-        webhookPath: { type: "string" },
-        webhookPort: { type: "integer", minimum: 1 },
-        verifyToken: { type: "string" },
-        encryptKey: { type: "string" },
-        dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist"] },
-        allowFrom: { type: "array", items: { oneOf: [{ type: "string" }, { type: "number" }] } },
-        groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
-        groupAllowFrom: { type: "array", items: { oneOf: [{ type: "string" }, { type: "number" }] } },
-        requireMention: { type: "boolean" },
-        historyLimit: { type: "integer", minimum: 0 },
-        dmHistoryLimit: { type: "integer", minimum: 0 },
-        textChunkLimit: { type: "integer", minimum: 1 },
-        chunkMode: { type: "string", enum: ["length", "newline"] },
-        blockStreaming: { type: "boolean" },
-        blockStreamingMode: { type: "string", enum: ["edit", "append"] },
-        mediaMaxMb: { type: "number", minimum: 0 },
-        renderMode: { type: "string", enum: ["auto", "kmarkdown", "card"] },
-        quotaWarningThreshold: { type: "number", minimum: 0, maximum: 1 },
-      },
-    },
+    schema: KookConfigJsonSchema,
   },
   config: {
-    listAccountIds: () => [DEFAULT_ACCOUNT_ID],
-    resolveAccount: (cfg) => resolveKookAccount({ cfg }),
-    defaultAccountId: () => DEFAULT_ACCOUNT_ID,
-    setAccountEnabled: ({ cfg, enabled }) => ({
-      ...cfg,
-      channels: {
-        ...cfg.channels,
-        kook: {
-          ...cfg.channels?.kook,
-          enabled,
-        },
-      },
-    }),
-    deleteAccount: ({ cfg }) => {
+    listAccountIds: (cfg) => listKookAccountIds(cfg),
+    resolveAccount: (cfg, accountId) => resolveKookAccount({ cfg, accountId }),
+    defaultAccountId: (cfg) => resolveDefaultKookAccountId(cfg),
+    setAccountEnabled: ({ cfg, accountId, enabled }) =>
+      patchKookAccountConfig(cfg, accountId, { enabled }),
+    deleteAccount: ({ cfg, accountId }) => {
+      // Its connection, queued requests and caches go with it
+      removeKookAccountContext(resolveKookAccount({ cfg, accountId }).accountId);
+      const kookCfg = cfg.channels?.kook as KookConfig | undefined;
+      const accounts = { ...kookCfg?.accounts };
+      if (!isDefaultAccount(accountId) || accounts[DEFAULT_ACCOUNT_ID]) {
+        delete accounts[accountId || DEFAULT_ACCOUNT_ID];
+        return {
+          ...cfg,
+          channels: {
+            ...cfg.channels,
+            kook: { ...kookCfg, accounts },
+          },
+        } as OpenClawConfig;
+      }
+      if (Object.keys(accounts).length > 0) {
+        // Keep the named accounts; only drop the default bot's token
+        const { token: _token, ...rest } = kookCfg ?? {};
+        return {
+          ...cfg,
+          channels: { ...cfg.channels, kook: rest },
+        } as OpenClawConfig;
+      }
+
       const next = { ...cfg } as OpenClawConfig;
       const nextChannels = { ...cfg.channels };
       delete (nextChannels as Record<string, unknown>).kook;
@@ -116,15 +156,15 @@ export const kookPlugin: ChannelPlugin<ResolvedKookAccount> = {
       }
       return next;
     },
-    isConfigured: (_account, cfg) =>
-      Boolean(resolveKookToken(cfg.channels?.kook as KookConfig | undefined)),
+    isConfigured: (account) => account.configured,
     describeAccount: (account) => ({
       accountId: account.accountId,
+      name: account.name,
       enabled: account.enabled,
       configured: account.configured,
     }),
-    resolveAllowFrom: ({ cfg }) =>
-      (cfg.channels?.kook as KookConfig | undefined)?.allowFrom ?? [],
+    resolveAllowFrom: ({ cfg, accountId }) =>
+      resolveKookAccount({ cfg, accountId }).config.allowFrom ?? [],
     formatAllowFrom: ({ allowFrom }) =>
       allowFrom
         .map((entry) => String(entry).trim())
@@ -132,8 +172,8 @@ export const kookPlugin: ChannelPlugin<ResolvedKookAccount> = {
         .map((entry) => entry.toLowerCase()),
   },
   security: {
-    collectWarnings: ({ cfg }) => {
-      const kookCfg = cfg.channels?.kook as KookConfig | undefined;
+    collectWarnings: ({ cfg, accountId }) => {
+      const kookCfg = resolveKookAccount({ cfg, accountId }).config;
       const defaultGroupPolicy = (cfg.channels as Record<string, { groupPolicy?: string }> | undefined)?.defaults?.groupPolicy;
       const groupPolicy = kookCfg?.groupPolicy ?? defaultGroupPolicy ?? "allowlist";
       if (groupPolicy !== "open") return [];
@@ -143,17 +183,9 @@ export const kookPlugin: ChannelPlugin<ResolvedKookAccount> = {
     },
   },
   setup: {
-    resolveAccountId: () => DEFAULT_ACCOUNT_ID,
-    applyAccountConfig: ({ cfg }) => ({
-      ...cfg,
-      channels: {
-        ...cfg.channels,
-        kook: {
-          ...cfg.channels?.kook,
-          enabled: true,
-        },
-      },
-    }),
+    resolveAccountId: ({ accountId }) => accountId?.trim() || DEFAULT_ACCOUNT_ID,
+    applyAccountConfig: ({ cfg, accountId }) =>
+      patchKookAccountConfig(cfg, accountId, { enabled: true }),
   },
   onboarding: kookOnboardingAdapter,
   messaging: {
@@ -165,14 +197,14 @@ export const kookPlugin: ChannelPlugin<ResolvedKookAccount> = {
   },
   directory: {
     self: async () => null,
-    listPeers: async ({ cfg, query, limit }) =>
-      listKookDirectoryPeers({ cfg, query, limit }),
-    listGroups: async ({ cfg, query, limit }) =>
-      listKookDirectoryGroups({ cfg, query, limit }),
-    listPeersLive: async ({ cfg, query, limit }) =>
-      listKookDirectoryPeersLive({ cfg, query, limit }),
-    listGroupsLive: async ({ cfg, query, limit }) =>
-      listKookDirectoryGroupsLive({ cfg, query, limit }),
+    listPeers: async ({ cfg, accountId, query, limit }) =>
+      listKookDirectoryPeers({ cfg, accountId, query, limit }),
+    listGroups: async ({ cfg, accountId, query, limit }) =>
+      listKookDirectoryGroups({ cfg, accountId, query, limit }),
+    listPeersLive: async ({ cfg, accountId, query, limit }) =>
+      listKookDirectoryPeersLive({ cfg, accountId, query, limit }),
+    listGroupsLive: async ({ cfg, accountId, query, limit }) =>
+      listKookDirectoryGroupsLive({ cfg, accountId, query, limit }),
   },
   actions: kookMessageActions,
   outbound: kookOutbound,
@@ -195,10 +227,11 @@ export const kookPlugin: ChannelPlugin<ResolvedKookAccount> = {
       probe: snapshot.probe,
       lastProbeAt: snapshot.lastProbeAt ?? null,
     }),
-    probeAccount: async ({ cfg }) =>
-      await probeKook(cfg.channels?.kook as KookConfig | undefined),
+    probeAccount: async ({ account }) =>
+      await probeKook(account.config),
     buildAccountSnapshot: ({ account, runtime, probe }) => ({
       accountId: account.accountId,
+      name: account.name,
       enabled: account.enabled,
       configured: account.configured,
       running: runtime?.running ?? false,
@@ -206,21 +239,29 @@ export const kookPlugin: ChannelPlugin<ResolvedKookAccount> = {
       lastStopAt: runtime?.lastStopAt ?? null,
       lastError: runtime?.lastError ?? null,
       port: runtime?.port ?? null,
+      bufferedEvents: runtime?.bufferedEvents ?? 0,
+      skippedSn: runtime?.skippedSn ?? 0,
+      droppedEvents: runtime?.droppedEvents ?? 0,
       probe,
     }),
   },
   gateway: {
     startAccount: async (ctx) => {
       const { monitorKookProvider } = await import("./monitor.js");
-      const kookCfg = ctx.cfg.channels?.kook as KookConfig | undefined;
-      const port = kookCfg?.webhookPort ?? null;
+      const kookCfg = ctx.account.config;
+      const port = kookCfg?.connectionMode === "webhook"
+        ? (kookCfg.webhookPort ?? DEFAULT_WEBHOOK_PORT)
+        : null;
       ctx.setStatus({ accountId: ctx.accountId, port });
-      ctx.log?.info(`starting KOOK provider (mode: ${kookCfg?.connectionMode ?? "websocket"})`);
+      ctx.log?.info(
+        `starting KOOK provider for account ${ctx.accountId} (mode: ${kookCfg?.connectionMode ?? "websocket"})`,
+      );
       return monitorKookProvider({
         config: ctx.cfg,
         runtime: ctx.runtime,
         abortSignal: ctx.abortSignal,
         accountId: ctx.accountId,
+        statusSink: (patch) => ctx.setStatus({ accountId: ctx.accountId, ...patch }),
       });
     },
   },
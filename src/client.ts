@@ -3,11 +3,39 @@ import type {
   KookUser,
   KookGuild,
   KookChannel,
+  KookBlacklistEntry,
+  KookChannelPermissions,
+  KookMuteList,
+  KookOverwriteTarget,
+  KookRole,
+  KookRoleGrantResult,
   KookSendResult,
   KookConfig,
 } from "./types.js";
-
-const BASE_URL = "https://www.kookapp.cn/api/v3";
+import { KookRateLimiter, type KookRequestPriority } from "./rate-limiter.js";
+import type { KookFetch } from "./http.js";
+
+export const KOOK_API_BASE_URL = "https://www.kookapp.cn/api/v3";
+
+export type KookClientOptions = {
+  /** REST base URL, e.g. a local stand-in server in tests (default: KOOK production) */
+  baseUrl?: string;
+  /** Share one limiter between clients using the same token */
+  rateLimiter?: KookRateLimiter;
+  /** Per-attempt timeout for REST calls (default: 15s) */
+  timeoutMs?: number;
+  /** HTTP transport, e.g. one that goes through a proxy (default: global fetch) */
+  fetch?: KookFetch;
+};
+
+export type KookRequestOptions = {
+  /** Queue position when a rate-limit bucket is running dry (default: "default") */
+  priority?: KookRequestPriority;
+  /** Override the client's per-attempt timeout */
+  timeoutMs?: number;
+  /** Cancel the call, including any wait for a rate-limit bucket or retry */
+  signal?: AbortSignal;
+};
 
 export class KookApiError extends Error {
   constructor(
@@ -28,39 +56,247 @@ export class KookRateLimitError extends Error {
   }
 }
 
-const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+export class KookHttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly responseText: string,
+  ) {
+    super(`KOOK HTTP ${status}: ${responseText}`);
+    this.name = "KookHttpError";
+  }
+}
+
+export class KookTimeoutError extends Error {
+  constructor(
+    public readonly path: string,
+    public readonly timeoutMs: number,
+  ) {
+    super(`KOOK request ${path} timed out after ${timeoutMs}ms`);
+    this.name = "KookTimeoutError";
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const UPLOAD_TIMEOUT_MS = 120_000;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8_000;
+
+type KookRawResponse = {
+  status: number;
+  headers: Headers;
+  text: string;
+};
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new Error("KOOK request aborted");
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * How a call may be sent again after a failure whose outcome is unknown
+ * (timeout, dropped connection, 5xx):
+ * - "repeat": reads and edits end in the same state when repeated.
+ * - "removal": deletes, kicks and unmutes also end in the same state, but KOOK
+ *   answers the repeat with an error because the target is already gone.
+ * - "never": creates, grants, reactions and anything unlisted would duplicate
+ *   or fail. KOOK only echoes `nonce` back and does not dedupe by it.
+ */
+type RetryPolicy = "repeat" | "removal" | "never";
+
+const REPEATABLE_POSTS: ReadonlySet<string> = new Set([
+  "/message/update",
+  "/direct-message/update",
+  "/channel/update",
+  "/channel-role/update",
+  "/guild-role/update",
+]);
+
+const REMOVAL_POSTS: ReadonlySet<string> = new Set([
+  "/message/delete",
+  "/direct-message/delete",
+  "/message/delete-reaction",
+  "/direct-message/delete-reaction",
+  "/channel/delete",
+  "/channel-role/delete",
+  "/guild-role/delete",
+  "/guild-mute/delete",
+  "/guild/kickout",
+  "/blacklist/delete",
+]);
+
+function resolveRetryPolicy(method: string, path: string): RetryPolicy {
+  if (method === "GET" || REPEATABLE_POSTS.has(path)) return "repeat";
+  return REMOVAL_POSTS.has(path) ? "removal" : "never";
+}
+
+// Errors raised while connecting, before any of the request was sent
+const CONNECT_ERROR_CODES: ReadonlySet<string> = new Set([
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+/**
+ * Whether `err` (or one of its causes) says the connection was never made,
+ * so even a create can safely be sent again.
+ */
+function isConnectError(err: unknown): boolean {
+  for (let current = err; current instanceof Error; current = current.cause) {
+    const code = (current as { code?: unknown }).code;
+    if (typeof code === "string" && CONNECT_ERROR_CODES.has(code)) return true;
+  }
+  return false;
+}
 
 export class KookClient {
   private token: string;
+  private baseUrl: string;
   private maxRetries = 3;
+  private timeoutMs: number;
+  private abortSignal: AbortSignal | undefined;
+  private fetchImpl: KookFetch;
+  readonly rateLimiter: KookRateLimiter;
+
+  constructor(token: string, options?: KookClientOptions) {
+    this.token = token;
+    this.baseUrl = (options?.baseUrl ?? KOOK_API_BASE_URL).replace(/\/+$/, "");
+    this.rateLimiter = options?.rateLimiter ?? new KookRateLimiter();
+    this.timeoutMs = options?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.fetchImpl = options?.fetch ?? ((input, init) => fetch(input, init));
+  }
 
-  constructor(token: string) {
-    this.token = token.startsWith("Bot ") ? token : token;
+  /**
+   * Cancel every call made through this client when `signal` aborts, e.g.
+   * the monitor's abort signal. Returns a function that detaches it again.
+   */
+  setAbortSignal(signal: AbortSignal): () => void {
+    this.abortSignal = signal;
+    return () => {
+      if (this.abortSignal === signal) this.abortSignal = undefined;
+    };
   }
 
   private get authHeader(): string {
     return `Bot ${this.token}`;
   }
 
-  async get<T>(path: string, params?: Record<string, string>): Promise<T> {
-    return this.request<T>("GET", path, { params });
+  async get<T>(path: string, params?: Record<string, string>, opts?: KookRequestOptions): Promise<T> {
+    return this.request<T>("GET", path, { ...opts, params });
   }
 
-  async post<T>(path: string, body: unknown): Promise<T> {
-    return this.request<T>("POST", path, { body });
+  async post<T>(path: string, body: unknown, opts?: KookRequestOptions): Promise<T> {
+    return this.request<T>("POST", path, { ...opts, body });
   }
 
-  async postForm<T>(path: string, formData: FormData): Promise<T> {
-    return this.request<T>("POST", path, { formData });
+  async postForm<T>(path: string, formData: FormData, opts?: KookRequestOptions): Promise<T> {
+    return this.request<T>("POST", path, { ...opts, formData });
   }
 
   private async request<T>(
     method: string,
     path: string,
-    opts: { body?: unknown; params?: Record<string, string>; formData?: FormData },
-    retryCount = 0,
+    opts: KookRequestOptions & { body?: unknown; params?: Record<string, string>; formData?: FormData },
   ): Promise<T> {
-    let url = `${BASE_URL}${path}`;
+    const signal = this.resolveSignal(opts.signal);
+    const retryPolicy = resolveRetryPolicy(method, path);
+    const retryable = retryPolicy !== "never";
+    let rateLimitRetries = 0;
+    let transientRetries = 0;
+    // Set once an attempt may have reached KOOK without us seeing the answer
+    let outcomeUnknown = false;
+
+    for (;;) {
+      let res: KookRawResponse;
+      try {
+        res = await this.rateLimiter.schedule(
+          path,
+          opts.priority ?? "default",
+          () => this.send(method, path, opts, signal),
+          signal,
+        );
+      } catch (err) {
+        // Cancelled by the caller or the monitor: never retry
+        if (signal?.aborted) throw err;
+        if (!retryable && !isConnectError(err)) throw err;
+        if (transientRetries >= this.maxRetries) throw err;
+        outcomeUnknown ||= !isConnectError(err);
+        await this.backoff(transientRetries++, signal);
+        continue;
+      }
+
+      this.rateLimiter.update(path, res.headers, res.status);
+
+      if (res.status === 429) {
+        // The limiter holds the retry until the bucket resets
+        const resetAfter = res.headers.get("X-Rate-Limit-Reset");
+        const waitMs = resetAfter ? parseInt(resetAfter, 10) * 1000 : 5000;
+        if (rateLimitRetries++ < this.maxRetries) continue;
+        throw new KookRateLimitError(waitMs);
+      }
+
+      if (res.status >= 500 && retryable && transientRetries < this.maxRetries) {
+        outcomeUnknown = true;
+        await this.backoff(transientRetries++, signal);
+        continue;
+      }
+
+      if (res.status < 200 || res.status >= 300) {
+        throw new KookHttpError(res.status, res.text);
+      }
+
+      const json = JSON.parse(res.text) as KookApiResponse<T>;
+      if (json.code !== 0) {
+        // The earlier attempt most likely removed the target already
+        if (retryPolicy === "removal" && outcomeUnknown) return undefined as T;
+        throw new KookApiError(json.code, json.message);
+      }
+
+      return json.data;
+    }
+  }
+
+  private resolveSignal(signal: AbortSignal | undefined): AbortSignal | undefined {
+    if (signal && this.abortSignal) return AbortSignal.any([signal, this.abortSignal]);
+    return signal ?? this.abortSignal;
+  }
+
+  /** Exponential backoff with full jitter */
+  private backoff(attempt: number, signal: AbortSignal | undefined): Promise<void> {
+    const capMs = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+    return sleep(Math.random() * capMs, signal);
+  }
+
+  /**
+   * One attempt. The timeout covers reading the body too, so a response
+   * that stalls halfway cannot hang the caller.
+   */
+  private async send(
+    method: string,
+    path: string,
+    opts: { body?: unknown; params?: Record<string, string>; formData?: FormData; timeoutMs?: number },
+    signal: AbortSignal | undefined,
+  ): Promise<KookRawResponse> {
+    let url = `${this.baseUrl}${path}`;
     if (opts.params) {
       const qs = new URLSearchParams(opts.params).toString();
       if (qs) url += `?${qs}`;
@@ -80,36 +316,25 @@ export class KookClient {
       fetchBody = JSON.stringify(opts.body);
     }
 
-    const res = await fetch(url, {
-      method,
-      headers,
-      body: fetchBody,
-    });
-
-    // Handle rate limiting
-    const remaining = res.headers.get("X-Rate-Limit-Remaining");
-    const resetAfter = res.headers.get("X-Rate-Limit-Reset");
-
-    if (res.status === 429) {
-      const waitMs = resetAfter ? parseInt(resetAfter, 10) * 1000 : 5000;
-      if (retryCount < this.maxRetries) {
-        await sleep(waitMs);
-        return this.request<T>(method, path, opts, retryCount + 1);
+    const timeoutMs = opts.timeoutMs ?? this.timeoutMs;
+    const timeoutSignal = AbortSignal.timeout(timeoutMs);
+    const attemptSignal = signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal;
+
+    try {
+      const res = await this.fetchImpl(url, {
+        method,
+        headers,
+        body: fetchBody,
+        signal: attemptSignal,
+      });
+      const text = await res.text();
+      return { status: res.status, headers: res.headers, text };
+    } catch (err) {
+      if (timeoutSignal.aborted && !signal?.aborted) {
+        throw new KookTimeoutError(path, timeoutMs);
       }
-      throw new KookRateLimitError(waitMs);
-    }
-
-    if (!res.ok) {
-      const text = await res.text().catch(() => "");
-      throw new Error(`KOOK HTTP ${res.status}: ${text}`);
+      throw err;
     }
-
-    const json = (await res.json()) as KookApiResponse<T>;
-    if (json.code !== 0) {
-      throw new KookApiError(json.code, json.message);
-    }
-
-    return json.data;
   }
 
   // ---- Gateway ----
@@ -131,6 +356,7 @@ export class KookClient {
       nonce?: string;
       tempTargetId?: string;
       replyMsgId?: string;
+      priority?: KookRequestPriority;
     },
   ): Promise<KookSendResult> {
     const body: Record<string, unknown> = {
@@ -146,6 +372,7 @@ export class KookClient {
     const data = await this.post<{ msg_id: string; msg_timestamp: number }>(
       "/message/create",
       body,
+      { priority: opts?.priority },
     );
     return { msgId: data.msg_id, msgTimestamp: data.msg_timestamp };
   }
@@ -153,7 +380,7 @@ export class KookClient {
   async updateMessage(
     msgId: string,
     content: string,
-    opts?: { quote?: string; tempTargetId?: string; replyMsgId?: string },
+    opts?: { quote?: string; tempTargetId?: string; replyMsgId?: string; priority?: KookRequestPriority },
   ): Promise<void> {
     const body: Record<string, unknown> = {
       msg_id: msgId,
@@ -163,11 +390,11 @@ export class KookClient {
     if (opts?.tempTargetId) body.temp_target_id = opts.tempTargetId;
     if (opts?.replyMsgId) body.reply_msg_id = opts.replyMsgId;
 
-    await this.post<void>("/message/update", body);
+    await this.post<void>("/message/update", body, { priority: opts?.priority });
   }
 
-  async deleteMessage(msgId: string): Promise<void> {
-    await this.post<void>("/message/delete", { msg_id: msgId });
+  async deleteMessage(msgId: string, opts?: KookRequestOptions): Promise<void> {
+    await this.post<void>("/message/delete", { msg_id: msgId }, opts);
   }
 
   async getMessage(msgId: string): Promise<unknown> {
@@ -185,6 +412,7 @@ export class KookClient {
       quote?: string;
       nonce?: string;
       replyMsgId?: string;
+      priority?: KookRequestPriority;
     },
   ): Promise<KookSendResult> {
     const body: Record<string, unknown> = {
@@ -200,6 +428,7 @@ export class KookClient {
     const data = await this.post<{ msg_id: string; msg_timestamp: number }>(
       "/direct-message/create",
       body,
+      { priority: opts?.priority },
     );
     return { msgId: data.msg_id, msgTimestamp: data.msg_timestamp };
   }
@@ -207,7 +436,7 @@ export class KookClient {
   async updateDirectMessage(
     msgId: string,
     content: string,
-    opts?: { quote?: string; replyMsgId?: string },
+    opts?: { quote?: string; replyMsgId?: string; priority?: KookRequestPriority },
   ): Promise<void> {
     const body: Record<string, unknown> = {
       msg_id: msgId,
@@ -216,39 +445,49 @@ export class KookClient {
     if (opts?.quote) body.quote = opts.quote;
     if (opts?.replyMsgId) body.reply_msg_id = opts.replyMsgId;
 
-    await this.post<void>("/direct-message/update", body);
+    await this.post<void>("/direct-message/update", body, { priority: opts?.priority });
   }
 
-  async deleteDirectMessage(msgId: string): Promise<void> {
-    await this.post<void>("/direct-message/delete", { msg_id: msgId });
+  async deleteDirectMessage(msgId: string, opts?: KookRequestOptions): Promise<void> {
+    await this.post<void>("/direct-message/delete", { msg_id: msgId }, opts);
   }
 
   // ---- Reactions ----
 
-  async addReaction(msgId: string, emoji: string): Promise<void> {
+  async addReaction(msgId: string, emoji: string, opts?: KookRequestOptions): Promise<void> {
     await this.post<void>("/message/add-reaction", {
       msg_id: msgId,
       emoji,
-    });
+    }, opts);
   }
 
-  async deleteReaction(msgId: string, emoji: string, userId?: string): Promise<void> {
+  async deleteReaction(
+    msgId: string,
+    emoji: string,
+    userId?: string,
+    opts?: KookRequestOptions,
+  ): Promise<void> {
     const body: Record<string, unknown> = { msg_id: msgId, emoji };
     if (userId) body.user_id = userId;
-    await this.post<void>("/message/delete-reaction", body);
+    await this.post<void>("/message/delete-reaction", body, opts);
   }
 
-  async addDirectReaction(msgId: string, emoji: string): Promise<void> {
+  async addDirectReaction(msgId: string, emoji: string, opts?: KookRequestOptions): Promise<void> {
     await this.post<void>("/direct-message/add-reaction", {
       msg_id: msgId,
       emoji,
-    });
+    }, opts);
   }
 
-  async deleteDirectReaction(msgId: string, emoji: string, userId?: string): Promise<void> {
+  async deleteDirectReaction(
+    msgId: string,
+    emoji: string,
+    userId?: string,
+    opts?: KookRequestOptions,
+  ): Promise<void> {
     const body: Record<string, unknown> = { msg_id: msgId, emoji };
     if (userId) body.user_id = userId;
-    await this.post<void>("/direct-message/delete-reaction", body);
+    await this.post<void>("/direct-message/delete-reaction", body, opts);
   }
 
   // ---- Media ----
@@ -257,7 +496,7 @@ export class KookClient {
     const formData = new FormData();
     const blob = new Blob([new Uint8Array(buffer)]);
     formData.append("file", blob, filename);
-    return this.postForm<{ url: string }>("/asset/create", formData);
+    return this.postForm<{ url: string }>("/asset/create", formData, { timeoutMs: UPLOAD_TIMEOUT_MS });
   }
 
   // ---- User ----
@@ -282,17 +521,206 @@ export class KookClient {
     return this.get<KookGuild>("/guild/view", { guild_id: guildId });
   }
 
+  // ---- Guild Roles ----
+
+  async listGuildRoles(
+    guildId: string,
+    opts?: { page?: number; pageSize?: number },
+  ): Promise<{
+    items: KookRole[];
+    meta: { page: number; page_total: number; page_size: number; total: number };
+  }> {
+    const params: Record<string, string> = { guild_id: guildId };
+    if (opts?.page) params.page = String(opts.page);
+    if (opts?.pageSize) params.page_size = String(opts.pageSize);
+    return this.get("/guild-role/list", params);
+  }
+
+  async createGuildRole(guildId: string, name?: string): Promise<KookRole> {
+    const body: Record<string, unknown> = { guild_id: guildId };
+    if (name) body.name = name;
+    return this.post<KookRole>("/guild-role/create", body);
+  }
+
+  async updateGuildRole(
+    guildId: string,
+    roleId: number,
+    patch: { name?: string; color?: number; hoist?: boolean; mentionable?: boolean; permissions?: number },
+  ): Promise<KookRole> {
+    const body: Record<string, unknown> = { guild_id: guildId, role_id: roleId };
+    if (patch.name !== undefined) body.name = patch.name;
+    if (patch.color !== undefined) body.color = patch.color;
+    if (patch.hoist !== undefined) body.hoist = patch.hoist ? 1 : 0;
+    if (patch.mentionable !== undefined) body.mentionable = patch.mentionable ? 1 : 0;
+    if (patch.permissions !== undefined) body.permissions = patch.permissions;
+    return this.post<KookRole>("/guild-role/update", body);
+  }
+
+  async deleteGuildRole(guildId: string, roleId: number): Promise<void> {
+    await this.post<void>("/guild-role/delete", { guild_id: guildId, role_id: roleId });
+  }
+
+  async grantGuildRole(guildId: string, userId: string, roleId: number): Promise<KookRoleGrantResult> {
+    return this.post<KookRoleGrantResult>("/guild-role/grant", {
+      guild_id: guildId,
+      user_id: userId,
+      role_id: roleId,
+    });
+  }
+
+  async revokeGuildRole(guildId: string, userId: string, roleId: number): Promise<KookRoleGrantResult> {
+    return this.post<KookRoleGrantResult>("/guild-role/revoke", {
+      guild_id: guildId,
+      user_id: userId,
+      role_id: roleId,
+    });
+  }
+
+  // ---- Moderation ----
+
+  async listGuildMutes(guildId: string): Promise<KookMuteList> {
+    return this.get<KookMuteList>("/guild-mute/list", { guild_id: guildId, return_type: "detail" });
+  }
+
+  /** `type` 1 = microphone, 2 = headset */
+  async createGuildMute(guildId: string, userId: string, type: 1 | 2): Promise<void> {
+    await this.post<void>("/guild-mute/create", { guild_id: guildId, user_id: userId, type });
+  }
+
+  async deleteGuildMute(guildId: string, userId: string, type: 1 | 2): Promise<void> {
+    await this.post<void>("/guild-mute/delete", { guild_id: guildId, user_id: userId, type });
+  }
+
+  async kickGuildMember(guildId: string, userId: string): Promise<void> {
+    await this.post<void>("/guild/kickout", { guild_id: guildId, target_id: userId });
+  }
+
+  async listBlacklist(
+    guildId: string,
+    opts?: { page?: number; pageSize?: number },
+  ): Promise<{ items: KookBlacklistEntry[] }> {
+    const params: Record<string, string> = { guild_id: guildId };
+    if (opts?.page) params.page = String(opts.page);
+    if (opts?.pageSize) params.page_size = String(opts.pageSize);
+    return this.get("/blacklist/list", params);
+  }
+
+  async createBlacklist(
+    guildId: string,
+    userId: string,
+    opts?: { remark?: string; deleteMessageDays?: number },
+  ): Promise<void> {
+    const body: Record<string, unknown> = { guild_id: guildId, target_id: userId };
+    if (opts?.remark) body.remark = opts.remark;
+    if (opts?.deleteMessageDays !== undefined) body.del_msg_days = opts.deleteMessageDays;
+    await this.post<void>("/blacklist/create", body);
+  }
+
+  async deleteBlacklist(guildId: string, userId: string): Promise<void> {
+    await this.post<void>("/blacklist/delete", { guild_id: guildId, target_id: userId });
+  }
+
   // ---- Channel ----
 
   async listChannels(guildId: string): Promise<{ items: KookChannel[] }> {
     return this.get<{ items: KookChannel[] }>("/channel/list", { guild_id: guildId });
   }
 
+  async getChannel(channelId: string): Promise<KookChannel> {
+    return this.get<KookChannel>("/channel/view", { target_id: channelId });
+  }
+
+  async createChannel(
+    guildId: string,
+    opts: {
+      name: string;
+      /** 1 = text (default), 2 = voice */
+      type?: number;
+      parentId?: string;
+      isCategory?: boolean;
+      /** Voice channel user limit */
+      limitAmount?: number;
+    },
+  ): Promise<KookChannel> {
+    const body: Record<string, unknown> = { guild_id: guildId, name: opts.name };
+    if (opts.type !== undefined) body.type = opts.type;
+    if (opts.parentId) body.parent_id = opts.parentId;
+    if (opts.isCategory) body.is_category = 1;
+    if (opts.limitAmount !== undefined) body.limit_amount = opts.limitAmount;
+    return this.post<KookChannel>("/channel/create", body);
+  }
+
+  async updateChannel(
+    channelId: string,
+    patch: {
+      name?: string;
+      topic?: string;
+      /** Slow mode interval in milliseconds; 0 turns it off */
+      slowMode?: number;
+      parentId?: string;
+      level?: number;
+      limitAmount?: number;
+    },
+  ): Promise<KookChannel> {
+    const body: Record<string, unknown> = { channel_id: channelId };
+    if (patch.name !== undefined) body.name = patch.name;
+    if (patch.topic !== undefined) body.topic = patch.topic;
+    if (patch.slowMode !== undefined) body.slow_mode = patch.slowMode;
+    if (patch.parentId !== undefined) body.parent_id = patch.parentId;
+    if (patch.level !== undefined) body.level = patch.level;
+    if (patch.limitAmount !== undefined) body.limit_amount = patch.limitAmount;
+    return this.post<KookChannel>("/channel/update", body);
+  }
+
+  async deleteChannel(channelId: string): Promise<void> {
+    await this.post<void>("/channel/delete", { channel_id: channelId });
+  }
+
+  // ---- Channel Permissions ----
+
+  async getChannelPermissions(channelId: string): Promise<KookChannelPermissions> {
+    return this.get<KookChannelPermissions>("/channel-role/index", { channel_id: channelId });
+  }
+
+  async createChannelPermission(
+    channelId: string,
+    target: KookOverwriteTarget,
+  ): Promise<{ allow: number; deny: number }> {
+    return this.post("/channel-role/create", {
+      channel_id: channelId,
+      type: target.type,
+      value: String(target.value),
+    });
+  }
+
+  async updateChannelPermission(
+    channelId: string,
+    target: KookOverwriteTarget,
+    bits: { allow?: number; deny?: number },
+  ): Promise<{ allow: number; deny: number }> {
+    const body: Record<string, unknown> = {
+      channel_id: channelId,
+      type: target.type,
+      value: String(target.value),
+    };
+    if (bits.allow !== undefined) body.allow = bits.allow;
+    if (bits.deny !== undefined) body.deny = bits.deny;
+    return this.post("/channel-role/update", body);
+  }
+
+  async deleteChannelPermission(channelId: string, target: KookOverwriteTarget): Promise<void> {
+    await this.post<void>("/channel-role/delete", {
+      channel_id: channelId,
+      type: target.type,
+      value: String(target.value),
+    });
+  }
+
   // ---- Guild Members ----
 
   async listGuildMembers(
     guildId: string,
-    opts?: { page?: number; pageSize?: number },
+    opts?: { page?: number; pageSize?: number; search?: string },
   ): Promise<{
     items: KookUser[];
     meta: { page: number; page_total: number; page_size: number; total: number };
@@ -300,6 +728,8 @@ export class KookClient {
     const params: Record<string, string> = { guild_id: guildId };
     if (opts?.page) params.page = String(opts.page);
     if (opts?.pageSize) params.page_size = String(opts.pageSize);
+    // Matches username or nickname
+    if (opts?.search) params.search = opts.search;
     return this.get("/guild/user-list", params);
   }
 
@@ -319,9 +749,12 @@ export class KookClient {
 }
 
 // Factory function
-export function createKookClient(cfg: KookConfig): KookClient;
-export function createKookClient(token: string): KookClient;
-export function createKookClient(cfgOrToken: KookConfig | string): KookClient {
+export function createKookClient(cfg: KookConfig, options?: KookClientOptions): KookClient;
+export function createKookClient(token: string, options?: KookClientOptions): KookClient;
+export function createKookClient(
+  cfgOrToken: KookConfig | string,
+  options?: KookClientOptions,
+): KookClient {
   const token = typeof cfgOrToken === "string" ? cfgOrToken : cfgOrToken.token!;
-  return new KookClient(token);
+  return new KookClient(token, options);
 }
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { DEFAULT_WEBHOOK_PORT } from "./webhook.js";
 export { z };
 
 const DmPolicySchema = z.enum(["open", "pairing", "allowlist"]);
@@ -20,6 +21,23 @@ const DmConfigSchema = z
   .strict()
   .optional();
 
+/**
+ * Which `message` tool actions are offered. Read-only groups default on;
+ * guild management (`roles`, `channels`, `moderation`) defaults off.
+ */
+const ActionsSchema = z
+  .object({
+    reactions: z.boolean().optional(),
+    messages: z.boolean().optional(),
+    channelInfo: z.boolean().optional(),
+    memberInfo: z.boolean().optional(),
+    roles: z.boolean().optional(),
+    channels: z.boolean().optional(),
+    moderation: z.boolean().optional(),
+  })
+  .strict()
+  .optional();
+
 const RenderModeSchema = z.enum(["auto", "kmarkdown", "card"]).optional();
 
 const BlockStreamingCoalesceSchema = z
@@ -39,6 +57,85 @@ const ChannelHeartbeatVisibilitySchema = z
   .strict()
   .optional();
 
+const EventRecorderSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    /** JSONL output file; defaults to <stateDir>/kook/events-<accountId>.jsonl */
+    path: z.string().optional(),
+    /** Mask message text, keeping mention tokens */
+    redactContent: z.boolean().optional(),
+  })
+  .strict()
+  .optional();
+
+/**
+ * Which reactions become session context: none, only those on the bot's own
+ * messages (default), or every reaction the bot can see.
+ */
+const ReactionNotificationsSchema = z.enum(["off", "own", "all"]);
+
+/**
+ * What to do when a user edits or deletes a message:
+ * - onEdit: "ignore", "update" pending history (default), or "rerun" the turn
+ *   when the edited message triggered a reply
+ * - onDelete: "ignore", "forget" it from history (default), or "retract" the
+ *   bot's reply as well
+ */
+const OnEditSchema = z.enum(["ignore", "update", "rerun"]);
+const OnDeleteSchema = z.enum(["ignore", "forget", "retract"]);
+
+/**
+ * Agent-written welcome for new guild members. Posted in `channelId`, or the
+ * guild's welcome channel when unset. Leaves and voice-channel joins are
+ * passed to the same channel's session as context.
+ */
+const WelcomeSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    channelId: z.string().optional(),
+    /** Extra instructions for the welcome, e.g. tone or rules to point at */
+    prompt: z.string().optional(),
+  })
+  .strict()
+  .optional();
+
+/**
+ * Mentions the agent's replies may produce. Users, channels and emoji are
+ * allowed by default; role mentions and `everyone` (@everyone / @here) are
+ * not. Disallowed KMarkdown tokens are escaped so they show as text.
+ */
+const MentionsSchema = z
+  .object({
+    users: z.boolean().optional(),
+    roles: z.boolean().optional(),
+    channels: z.boolean().optional(),
+    emoji: z.boolean().optional(),
+    everyone: z.boolean().optional(),
+  })
+  .strict()
+  .optional();
+
+/**
+ * Overrides for one channel inside a guild entry. Unset fields fall back to
+ * the guild entry, then to the top level.
+ */
+export const KookChannelSchema = z
+  .object({
+    requireMention: z.boolean().optional(),
+    tools: ToolPolicySchema,
+    skills: z.array(z.string()).optional(),
+    enabled: z.boolean().optional(),
+    allowFrom: z.array(z.union([z.string(), z.number()])).optional(),
+    systemPrompt: z.string().optional(),
+    reactionNotifications: ReactionNotificationsSchema.optional(),
+    onEdit: OnEditSchema.optional(),
+    onDelete: OnDeleteSchema.optional(),
+    welcome: WelcomeSchema,
+    mentions: MentionsSchema,
+    moderatorRoles: z.array(z.union([z.string(), z.number()])).optional(),
+  })
+  .strict();
+
 export const KookGroupSchema = z
   .object({
     requireMention: z.boolean().optional(),
@@ -47,50 +144,363 @@ export const KookGroupSchema = z
     enabled: z.boolean().optional(),
     allowFrom: z.array(z.union([z.string(), z.number()])).optional(),
     systemPrompt: z.string().optional(),
+    reactionNotifications: ReactionNotificationsSchema.optional(),
+    onEdit: OnEditSchema.optional(),
+    onDelete: OnDeleteSchema.optional(),
+    welcome: WelcomeSchema,
+    mentions: MentionsSchema,
+    /** Role IDs or names whose members may ask for mute/kick/ban */
+    moderatorRoles: z.array(z.union([z.string(), z.number()])).optional(),
+    /** Channel ID → overrides for that channel */
+    channels: z.record(z.string(), KookChannelSchema.optional()).optional(),
   })
   .strict();
 
+const KookAccountConfigShape = {
+  enabled: z.boolean().optional(),
+  name: z.string().optional(),
+  token: z.string().optional(),
+  /** REST base URL, e.g. a local stand-in (default: https://www.kookapp.cn/api/v3) */
+  apiBaseUrl: z.string().url().optional(),
+  /** HTTP(S) proxy for REST, the gateway WebSocket and media downloads */
+  proxy: z.string().url().optional(),
+  connectionMode: z.enum(["websocket", "webhook"]).optional(),
+  webhookPath: z.string().optional(),
+  webhookPort: z.number().int().positive().optional(),
+  verifyToken: z.string().optional(),
+  encryptKey: z.string().optional(),
+  capabilities: z.array(z.string()).optional(),
+  configWrites: z.boolean().optional(),
+  dmPolicy: DmPolicySchema.optional(),
+  allowFrom: z.array(z.union([z.string(), z.number()])).optional(),
+  groupPolicy: GroupPolicySchema.optional(),
+  groupAllowFrom: z.array(z.union([z.string(), z.number()])).optional(),
+  requireMention: z.boolean().optional(),
+  groups: z.record(z.string(), KookGroupSchema.optional()).optional(),
+  reactionNotifications: ReactionNotificationsSchema.optional(),
+  onEdit: OnEditSchema.optional(),
+  onDelete: OnDeleteSchema.optional(),
+  welcome: WelcomeSchema,
+  mentions: MentionsSchema,
+  moderatorRoles: z.array(z.union([z.string(), z.number()])).optional(),
+  historyLimit: z.number().int().min(0).optional(),
+  dmHistoryLimit: z.number().int().min(0).optional(),
+  dms: z.record(z.string(), DmConfigSchema).optional(),
+  textChunkLimit: z.number().int().positive().optional(),
+  chunkMode: z.enum(["length", "newline"]).optional(),
+  blockStreaming: z.boolean().optional(),
+  blockStreamingMode: z.enum(["edit", "append"]).optional(),
+  blockStreamingCoalesce: BlockStreamingCoalesceSchema,
+  mediaMaxMb: z.number().positive().optional(),
+  heartbeat: ChannelHeartbeatVisibilitySchema,
+  renderMode: RenderModeSchema,
+  quotaWarningThreshold: z.number().min(0).max(1).optional(),
+  eventRecorder: EventRecorderSchema,
+  actions: ActionsSchema,
+};
+
+type KookAccountConfigInput = {
+  connectionMode?: "websocket" | "webhook";
+  verifyToken?: string;
+  dmPolicy?: "open" | "pairing" | "allowlist";
+  allowFrom?: Array<string | number>;
+};
+
+function validateKookAccountConfig(
+  value: KookAccountConfigInput,
+  ctx: z.RefinementCtx,
+  path: Array<string | number>,
+  prefix: string,
+): void {
+  if (value.dmPolicy === "open") {
+    const allowFrom = value.allowFrom ?? [];
+    const hasWildcard = allowFrom.some((entry) => String(entry).trim() === "*");
+    if (!hasWildcard) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [...path, "allowFrom"],
+        message: `${prefix}.dmPolicy="open" requires ${prefix}.allowFrom to include "*"`,
+      });
+    }
+  }
+  if (value.connectionMode === "webhook" && !value.verifyToken?.trim()) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [...path, "verifyToken"],
+      message: `${prefix}.connectionMode="webhook" requires ${prefix}.verifyToken`,
+    });
+  }
+}
+
+type KookWebhookListenerInput = {
+  enabled?: boolean;
+  connectionMode?: "websocket" | "webhook";
+  webhookPort?: number;
+  webhookPath?: string;
+};
+
+/**
+ * Every account in webhook mode runs its own HTTP listener, so two of them
+ * on the same port and path would collide at startup.
+ */
+function validateKookWebhookListeners(
+  value: KookWebhookListenerInput & {
+    token?: string;
+    accounts?: Record<string, KookWebhookListenerInput | undefined>;
+  },
+  ctx: z.RefinementCtx,
+): void {
+  if (value.enabled === false) return;
+
+  const accounts = Object.entries(value.accounts ?? {});
+  const listeners: Array<{ path: Array<string | number>; prefix: string; config: KookWebhookListenerInput }> = [];
+  // The top level is an account of its own unless `accounts.default` stands in for it
+  const hasDefaultEntry = accounts.some(([accountId]) => accountId.toLowerCase() === "default");
+  if (accounts.length === 0 || (value.token?.trim() && !hasDefaultEntry)) {
+    listeners.push({ path: [], prefix: "channels.kook", config: value });
+  }
+  for (const [accountId, account] of accounts) {
+    if (!account) continue;
+    listeners.push({
+      path: ["accounts", accountId],
+      prefix: `channels.kook.accounts.${accountId}`,
+      config: {
+        enabled: account.enabled,
+        connectionMode: account.connectionMode ?? value.connectionMode,
+        webhookPort: account.webhookPort ?? value.webhookPort,
+        webhookPath: account.webhookPath ?? value.webhookPath,
+      },
+    });
+  }
+
+  const seen = new Map<string, string>();
+  for (const { path, prefix, config } of listeners) {
+    if (config.enabled === false || config.connectionMode !== "webhook") continue;
+    const key = `${config.webhookPort ?? DEFAULT_WEBHOOK_PORT}${config.webhookPath ?? "/kook/events"}`;
+    const other = seen.get(key);
+    if (other) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [...path, "webhookPort"],
+        message: `${prefix} uses the same webhookPort and webhookPath as ${other}`,
+      });
+      continue;
+    }
+    seen.set(key, prefix);
+  }
+}
+
+/**
+ * Per-account overrides under `channels.kook.accounts.<id>`.
+ * Anything left unset falls back to the top-level `channels.kook` value,
+ * except `token`: every account runs its own bot.
+ */
+export const KookAccountConfigSchema = z.object(KookAccountConfigShape).strict();
+
 export const KookConfigSchema = z
   .object({
-    enabled: z.boolean().optional(),
-    token: z.string().optional(),
+    ...KookAccountConfigShape,
     connectionMode: z.enum(["websocket", "webhook"]).optional().default("websocket"),
     webhookPath: z.string().optional().default("/kook/events"),
-    webhookPort: z.number().int().positive().optional(),
-    verifyToken: z.string().optional(),
-    encryptKey: z.string().optional(),
-    capabilities: z.array(z.string()).optional(),
-    configWrites: z.boolean().optional(),
     dmPolicy: DmPolicySchema.optional().default("pairing"),
-    allowFrom: z.array(z.union([z.string(), z.number()])).optional(),
     groupPolicy: GroupPolicySchema.optional().default("allowlist"),
-    groupAllowFrom: z.array(z.union([z.string(), z.number()])).optional(),
     requireMention: z.boolean().optional().default(true),
-    groups: z.record(z.string(), KookGroupSchema.optional()).optional(),
-    historyLimit: z.number().int().min(0).optional(),
-    dmHistoryLimit: z.number().int().min(0).optional(),
-    dms: z.record(z.string(), DmConfigSchema).optional(),
-    textChunkLimit: z.number().int().positive().optional(),
-    chunkMode: z.enum(["length", "newline"]).optional(),
-    blockStreaming: z.boolean().optional(),
     blockStreamingMode: z.enum(["edit", "append"]).optional().default("edit"),
-    blockStreamingCoalesce: BlockStreamingCoalesceSchema,
-    mediaMaxMb: z.number().positive().optional(),
-    heartbeat: ChannelHeartbeatVisibilitySchema,
-    renderMode: RenderModeSchema,
-    quotaWarningThreshold: z.number().min(0).max(1).optional(),
+    accounts: z.record(z.string(), KookAccountConfigSchema.optional()).optional(),
   })
   .strict()
   .superRefine((value, ctx) => {
-    if (value.dmPolicy === "open") {
-      const allowFrom = value.allowFrom ?? [];
-      const hasWildcard = allowFrom.some((entry) => String(entry).trim() === "*");
-      if (!hasWildcard) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          path: ["allowFrom"],
-          message: 'channels.kook.dmPolicy="open" requires channels.kook.allowFrom to include "*"',
-        });
-      }
+    validateKookAccountConfig(value, ctx, [], "channels.kook");
+    for (const [accountId, account] of Object.entries(value.accounts ?? {})) {
+      if (!account) continue;
+      validateKookAccountConfig(
+        {
+          connectionMode: account.connectionMode ?? value.connectionMode,
+          verifyToken: account.verifyToken ?? value.verifyToken,
+          dmPolicy: account.dmPolicy ?? value.dmPolicy,
+          allowFrom: account.allowFrom ?? value.allowFrom,
+        },
+        ctx,
+        ["accounts", accountId],
+        `channels.kook.accounts.${accountId}`,
+      );
     }
+    validateKookWebhookListeners(value, ctx);
   });
+
+// JSON Schema counterparts of the zod schemas above
+
+const allowFromJsonSchema = {
+  type: "array",
+  items: { oneOf: [{ type: "string" }, { type: "number" }] },
+} as const;
+
+const toolPolicyJsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    allow: { type: "array", items: { type: "string" } },
+    deny: { type: "array", items: { type: "string" } },
+  },
+} as const;
+
+const welcomeJsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    enabled: { type: "boolean" },
+    channelId: { type: "string" },
+    prompt: { type: "string" },
+  },
+} as const;
+
+const mentionsJsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    users: { type: "boolean" },
+    roles: { type: "boolean" },
+    channels: { type: "boolean" },
+    emoji: { type: "boolean" },
+    everyone: { type: "boolean" },
+  },
+} as const;
+
+// Settings a channel entry can override
+const channelJsonSchemaProperties = {
+  requireMention: { type: "boolean" },
+  tools: toolPolicyJsonSchema,
+  skills: { type: "array", items: { type: "string" } },
+  enabled: { type: "boolean" },
+  allowFrom: allowFromJsonSchema,
+  systemPrompt: { type: "string" },
+  reactionNotifications: { type: "string", enum: ["off", "own", "all"] },
+  onEdit: { type: "string", enum: ["ignore", "update", "rerun"] },
+  onDelete: { type: "string", enum: ["ignore", "forget", "retract"] },
+  welcome: welcomeJsonSchema,
+  mentions: mentionsJsonSchema,
+  moderatorRoles: allowFromJsonSchema,
+} as const;
+
+const groupJsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    ...channelJsonSchemaProperties,
+    channels: {
+      type: "object",
+      additionalProperties: {
+        type: "object",
+        additionalProperties: false,
+        properties: channelJsonSchemaProperties,
+      },
+    },
+  },
+} as const;
+
+// Settings that may be set at the top level and overridden per account
+const accountJsonSchemaProperties = {
+  enabled: { type: "boolean" },
+  name: { type: "string" },
+  token: { type: "string" },
+  apiBaseUrl: { type: "string", format: "uri" },
+  proxy: { type: "string", format: "uri" },
+  connectionMode: { type: "string", enum: ["websocket", "webhook"] },
+  webhookPath: { type: "string" },
+  webhookPort: { type: "integer", minimum: 1 },
+  verifyToken: { type: "string" },
+  encryptKey: { type: "string" },
+  capabilities: { type: "array", items: { type: "string" } },
+  configWrites: { type: "boolean" },
+  dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist"] },
+  allowFrom: allowFromJsonSchema,
+  groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
+  groupAllowFrom: allowFromJsonSchema,
+  requireMention: { type: "boolean" },
+  groups: { type: "object", additionalProperties: groupJsonSchema },
+  reactionNotifications: { type: "string", enum: ["off", "own", "all"] },
+  onEdit: { type: "string", enum: ["ignore", "update", "rerun"] },
+  onDelete: { type: "string", enum: ["ignore", "forget", "retract"] },
+  welcome: welcomeJsonSchema,
+  mentions: mentionsJsonSchema,
+  moderatorRoles: allowFromJsonSchema,
+  historyLimit: { type: "integer", minimum: 0 },
+  dmHistoryLimit: { type: "integer", minimum: 0 },
+  dms: {
+    type: "object",
+    additionalProperties: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        enabled: { type: "boolean" },
+        systemPrompt: { type: "string" },
+      },
+    },
+  },
+  textChunkLimit: { type: "integer", minimum: 1 },
+  chunkMode: { type: "string", enum: ["length", "newline"] },
+  blockStreaming: { type: "boolean" },
+  blockStreamingMode: { type: "string", enum: ["edit", "append"] },
+  blockStreamingCoalesce: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      enabled: { type: "boolean" },
+      minDelayMs: { type: "integer", minimum: 1 },
+      maxDelayMs: { type: "integer", minimum: 1 },
+    },
+  },
+  mediaMaxMb: { type: "number", exclusiveMinimum: 0 },
+  heartbeat: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      visibility: { type: "string", enum: ["visible", "hidden"] },
+      intervalMs: { type: "integer", minimum: 1 },
+    },
+  },
+  renderMode: { type: "string", enum: ["auto", "kmarkdown", "card"] },
+  quotaWarningThreshold: { type: "number", minimum: 0, maximum: 1 },
+  eventRecorder: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      enabled: { type: "boolean" },
+      path: { type: "string" },
+      redactContent: { type: "boolean" },
+    },
+  },
+  actions: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      reactions: { type: "boolean" },
+      messages: { type: "boolean" },
+      channelInfo: { type: "boolean" },
+      memberInfo: { type: "boolean" },
+      roles: { type: "boolean" },
+      channels: { type: "boolean" },
+      moderation: { type: "boolean" },
+    },
+  },
+} as const;
+
+/**
+ * `KookConfigSchema` as JSON Schema, for the host's config validation and
+ * editors. Every field must be listed: unknown keys are rejected.
+ */
+export const KookConfigJsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    ...accountJsonSchemaProperties,
+    accounts: {
+      type: "object",
+      additionalProperties: {
+        type: "object",
+        additionalProperties: false,
+        properties: accountJsonSchemaProperties,
+      },
+    },
+  },
+} as const;
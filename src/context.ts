@@ -0,0 +1,242 @@
+import type { HistoryEntry, OpenClawConfig } from "openclaw/plugin-sdk";
+import type { KookChannel, KookEventData, KookRole, KookUser } from "./types.js";
+import { resolveKookAccount } from "./accounts.js";
+import { createKookClient, type KookClient } from "./client.js";
+import { createKookTransport, type KookTransport } from "./http.js";
+import { KookQuotaTracker } from "./quota.js";
+import type { KookWSClient } from "./ws-client.js";
+import type { KookWebhookServer } from "./webhook.js";
+
+/**
+ * Per-account runtime context.
+ *
+ * Holds everything that used to live in module globals (bot identity, quota
+ * tracker, connection, caches) so several accounts can run side by side and
+ * every send/receive path for one account shares a single REST client.
+ */
+
+export type KookSentMessage = {
+  /** Channel ID, or the user ID for direct messages */
+  targetId: string;
+  channelType: "GROUP" | "PERSON";
+  sentAt: number;
+};
+
+/** A user message that started a turn, and what the bot replied with */
+export type KookTurnRecord = {
+  event: KookEventData;
+  channelType: "GROUP" | "PERSON";
+  replyIds: string[];
+};
+
+/** Guild members, roles and channels looked up for mentions */
+export type KookGuildDirectory = {
+  channels?: { items: KookChannel[]; expireAt: number };
+  roles?: { items: KookRole[]; expireAt: number };
+  /** Lowercased name searched → members found, oldest first */
+  memberSearches: Map<string, { items: KookUser[]; expireAt: number }>;
+  /** userId → display name of members mentioned in inbound messages, oldest first */
+  memberNames: Map<string, { name: string; expireAt: number }>;
+};
+
+export type KookAccountCaches = {
+  /** userId → display name, refreshed from inbound message authors */
+  senderNames: Map<string, { name: string; expireAt: number }>;
+  /** Recently sent bot messages (msgId → where), oldest first */
+  sentMessages: Map<string, KookSentMessage>;
+  /** channelId → guildId, learned from inbound messages and lookups */
+  channelGuilds: Map<string, string>;
+  /** Trigger msgId → turn, oldest first; used when the trigger is edited or deleted */
+  turns: Map<string, KookTurnRecord>;
+  /** guildId → member/role/channel lookups for mentions */
+  guildDirectories: Map<string, KookGuildDirectory>;
+  /** guildId → role KOOK created for the bot; @-ing the bot mentions it */
+  botRoles: Map<string, number>;
+  /** userId → when a pairing code was last sent to them, oldest first */
+  pairingReplies: Map<string, number>;
+  /** userId → DMs held until their pairing is approved, least recent sender first */
+  heldMessages: Map<string, HistoryEntry[]>;
+};
+
+// Enough to recognise reactions on recent replies without growing unbounded
+const SENT_MESSAGE_LIMIT = 1000;
+const TURN_LIMIT = 200;
+
+export type KookAccountContext = {
+  accountId: string;
+  token: string;
+  apiBaseUrl?: string;
+  proxy?: string;
+  transport: KookTransport;
+  client: KookClient;
+  botId?: string;
+  botName?: string;
+  quotaTracker: KookQuotaTracker;
+  caches: KookAccountCaches;
+  wsClient: KookWSClient | null;
+  webhookServer: KookWebhookServer | null;
+};
+
+const contexts = new Map<string, KookAccountContext>();
+
+export function getKookAccountContext(accountId: string): KookAccountContext | undefined {
+  return contexts.get(accountId);
+}
+
+export function listKookAccountContexts(): KookAccountContext[] {
+  return Array.from(contexts.values());
+}
+
+/**
+ * Stop what a replaced context still runs: its gateway connection or webhook
+ * server, queued REST requests and proxy connections.
+ */
+function disposeKookAccountContext(context: KookAccountContext): void {
+  context.wsClient?.stop();
+  context.wsClient = null;
+  context.webhookServer?.stop();
+  context.webhookServer = null;
+  context.client.rateLimiter.dispose();
+  context.transport.close();
+}
+
+/**
+ * Get the context for an account, creating it on first use.
+ * A token, API base URL or proxy change (config reload) disposes of the old
+ * context and replaces it.
+ */
+export function resolveKookAccountContext(params: {
+  cfg: OpenClawConfig;
+  accountId?: string | null;
+  log?: (...args: unknown[]) => void;
+}): KookAccountContext {
+  const account = resolveKookAccount({ cfg: params.cfg, accountId: params.accountId });
+  if (!account.token) {
+    throw new Error(`KOOK account "${account.accountId}" not configured`);
+  }
+
+  const apiBaseUrl = account.config.apiBaseUrl?.trim() || undefined;
+  const proxy = account.config.proxy?.trim() || undefined;
+
+  const existing = contexts.get(account.accountId);
+  if (
+    existing &&
+    existing.token === account.token &&
+    existing.apiBaseUrl === apiBaseUrl &&
+    existing.proxy === proxy
+  ) {
+    return existing;
+  }
+  if (existing) {
+    params.log?.(`kook: connection settings of account ${account.accountId} changed, replacing its context`);
+    disposeKookAccountContext(existing);
+  }
+
+  const transport = createKookTransport({ proxy });
+  const context: KookAccountContext = {
+    accountId: account.accountId,
+    token: account.token,
+    apiBaseUrl,
+    proxy,
+    transport,
+    client: createKookClient(account.token, { baseUrl: apiBaseUrl, fetch: transport.fetch }),
+    quotaTracker: new KookQuotaTracker({
+      warningThreshold: account.config.quotaWarningThreshold ?? 0.8,
+      log: params.log,
+    }),
+    caches: {
+      senderNames: new Map(),
+      sentMessages: new Map(),
+      channelGuilds: new Map(),
+      turns: new Map(),
+      guildDirectories: new Map(),
+      botRoles: new Map(),
+      pairingReplies: new Map(),
+      heldMessages: new Map(),
+    },
+    wsClient: null,
+    webhookServer: null,
+  };
+  contexts.set(account.accountId, context);
+  return context;
+}
+
+/**
+ * Drop a deleted account's context, disposing of it like a replaced one.
+ */
+export function removeKookAccountContext(accountId: string): void {
+  const context = contexts.get(accountId);
+  if (!context) return;
+  contexts.delete(accountId);
+  disposeKookAccountContext(context);
+}
+
+/**
+ * Look up the bot's managed role in a guild: the bot-managed role among the
+ * bot's own member roles (or its only role, if KOOK did not say which is
+ * managed). Cached in `caches.botRoles`; a failed lookup keeps the old entry.
+ */
+export async function refreshBotGuildRole(
+  context: KookAccountContext,
+  guildId: string,
+): Promise<number | undefined> {
+  const { botId, client } = context;
+  if (!botId) return undefined;
+
+  try {
+    const [me, { items }] = await Promise.all([
+      client.getUser(botId, guildId),
+      client.listGuildRoles(guildId, { pageSize: 100 }),
+    ]);
+    const ownRoles = new Set(me.roles ?? []);
+    const held = (items ?? []).filter((role) => ownRoles.has(role.role_id));
+    const managed = held.find((role) => role.type === 1) ?? (held.length === 1 ? held[0] : undefined);
+    if (managed) {
+      context.caches.botRoles.set(guildId, managed.role_id);
+    } else {
+      context.caches.botRoles.delete(guildId);
+    }
+    return managed?.role_id;
+  } catch {
+    return context.caches.botRoles.get(guildId);
+  }
+}
+
+export function rememberSentMessage(
+  context: KookAccountContext,
+  msgId: string,
+  info: Omit<KookSentMessage, "sentAt">,
+): void {
+  const { sentMessages } = context.caches;
+  sentMessages.set(msgId, { ...info, sentAt: Date.now() });
+  if (sentMessages.size > SENT_MESSAGE_LIMIT) {
+    const oldest = sentMessages.keys().next().value;
+    if (oldest !== undefined) sentMessages.delete(oldest);
+  }
+}
+
+export function rememberTurn(
+  context: KookAccountContext,
+  event: KookEventData,
+  channelType: "GROUP" | "PERSON",
+): void {
+  const { turns } = context.caches;
+  // A re-run replaces the earlier record for the same trigger
+  turns.delete(event.msg_id);
+  turns.set(event.msg_id, { event, channelType, replyIds: [] });
+  if (turns.size > TURN_LIMIT) {
+    const oldest = turns.keys().next().value;
+    if (oldest !== undefined) turns.delete(oldest);
+  }
+}
+
+export function recordTurnReply(
+  context: KookAccountContext,
+  triggerMsgId: string,
+  replyMsgId: string,
+): void {
+  const turn = context.caches.turns.get(triggerMsgId);
+  if (turn && !turn.replyIds.includes(replyMsgId)) {
+    turn.replyIds.push(replyMsgId);
+  }
+}
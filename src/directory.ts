@@ -1,6 +1,6 @@
 import type { OpenClawConfig } from "openclaw/plugin-sdk";
-import type { KookConfig } from "./types.js";
-import { createKookClient } from "./client.js";
+import { resolveKookAccount } from "./accounts.js";
+import { resolveKookAccountContext } from "./context.js";
 
 type DirectoryPeer = {
   id: string;
@@ -19,15 +19,16 @@ type DirectoryGroup = {
  */
 export async function listKookDirectoryPeers(params: {
   cfg: OpenClawConfig;
+  accountId?: string | null;
   query?: string;
   limit?: number;
 }): Promise<DirectoryPeer[]> {
-  const { cfg, query, limit } = params;
-  const kookCfg = cfg.channels?.kook as KookConfig | undefined;
-  if (!kookCfg?.token) return [];
+  const { cfg, accountId, query, limit } = params;
+  const account = resolveKookAccount({ cfg, accountId });
+  if (!account.token) return [];
 
   try {
-    const client = createKookClient(kookCfg);
+    const { client } = resolveKookAccountContext({ cfg, accountId });
     const guildsResult = await client.listGuilds();
     const guilds = guildsResult.items ?? [];
 
@@ -75,15 +76,16 @@ export async function listKookDirectoryPeers(params: {
  */
 export async function listKookDirectoryGroups(params: {
   cfg: OpenClawConfig;
+  accountId?: string | null;
   query?: string;
   limit?: number;
 }): Promise<DirectoryGroup[]> {
-  const { cfg, query, limit } = params;
-  const kookCfg = cfg.channels?.kook as KookConfig | undefined;
-  if (!kookCfg?.token) return [];
+  const { cfg, accountId, query, limit } = params;
+  const account = resolveKookAccount({ cfg, accountId });
+  if (!account.token) return [];
 
   try {
-    const client = createKookClient(kookCfg);
+    const { client } = resolveKookAccountContext({ cfg, accountId });
     const result = await client.listGuilds();
     let guilds = result.items ?? [];
 
@@ -110,6 +112,7 @@ export async function listKookDirectoryGroups(params: {
  */
 export async function listKookDirectoryPeersLive(params: {
   cfg: OpenClawConfig;
+  accountId?: string | null;
   query?: string;
   limit?: number;
 }): Promise<DirectoryPeer[]> {
@@ -121,6 +124,7 @@ export async function listKookDirectoryPeersLive(params: {
  */
 export async function listKookDirectoryGroupsLive(params: {
   cfg: OpenClawConfig;
+  accountId?: string | null;
   query?: string;
   limit?: number;
 }): Promise<DirectoryGroup[]> {
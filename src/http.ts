@@ -0,0 +1,56 @@
+import type { Agent } from "node:http";
+import { ProxyAgent } from "undici";
+import { HttpsProxyAgent } from "https-proxy-agent";
+
+/**
+ * Outbound HTTP for one account.
+ *
+ * REST calls, the gateway WebSocket and media downloads all go through the
+ * same transport, so `proxy` in config applies to every connection the
+ * plugin makes.
+ */
+
+export type KookFetch = (input: string | URL, init?: RequestInit) => Promise<Response>;
+
+export type KookTransport = {
+  fetch: KookFetch;
+  /** Agent for the gateway WebSocket; undefined connects directly */
+  wsAgent?: Agent;
+  /** Proxy URL in use, credentials removed (for logs) */
+  proxyLabel?: string;
+  /** Close the proxy connections, if any */
+  close: () => void;
+};
+
+function redactProxyUrl(proxyUrl: string): string {
+  try {
+    const url = new URL(proxyUrl);
+    if (url.username || url.password) {
+      url.username = "***";
+      url.password = "";
+    }
+    return url.toString();
+  } catch {
+    return "(invalid proxy URL)";
+  }
+}
+
+export function createKookTransport(opts?: { proxy?: string }): KookTransport {
+  const proxyUrl = opts?.proxy?.trim();
+  if (!proxyUrl) {
+    return { fetch: (input, init) => fetch(input, init), close: () => {} };
+  }
+
+  const dispatcher = new ProxyAgent(proxyUrl);
+  const wsAgent = new HttpsProxyAgent(proxyUrl);
+  return {
+    // `dispatcher` is understood by Node's built-in fetch but not in RequestInit
+    fetch: (input, init) => fetch(input, { ...init, dispatcher } as RequestInit),
+    wsAgent,
+    proxyLabel: redactProxyUrl(proxyUrl),
+    close: () => {
+      dispatcher.close().catch(() => {});
+      wsAgent.destroy();
+    },
+  };
+}
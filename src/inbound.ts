@@ -0,0 +1,256 @@
+import type { OpenClawConfig, RuntimeEnv, HistoryEntry } from "openclaw/plugin-sdk";
+import {
+  buildPendingHistoryContextFromMap,
+  clearHistoryEntriesIfEnabled,
+  recordPendingHistoryEntryIfEnabled,
+} from "openclaw/plugin-sdk";
+import type { KookEventData, KookMessageContext } from "./types.js";
+import { getKookRuntime } from "./runtime.js";
+import { resolveKookAccount } from "./accounts.js";
+import { resolveKookAccountContext, rememberTurn } from "./context.js";
+import { resolveKookDmConfig, resolveKookGroupConfig } from "./policy.js";
+import { mergeKookHeldDmMessages } from "./pairing.js";
+import {
+  createKookReplyDispatcher,
+  registerKookDryRunSession,
+  type KookDryRunSink,
+} from "./reply-dispatcher.js";
+import { resolveKookMediaList, buildKookMediaPayload } from "./media.js";
+
+/**
+ * Key of a conversation's pending history in `chatHistories`.
+ */
+export function resolveKookHistoryKey(
+  ctx: Pick<KookMessageContext, "channelType" | "channelId" | "senderId">,
+): string {
+  return ctx.channelType === "GROUP" ? ctx.channelId : `dm:${ctx.senderId}`;
+}
+
+/**
+ * Dispatch one inbound turn to the agent.
+ *
+ * Shared by regular messages and system events that should start a turn
+ * (e.g. card button clicks). Callers do access control first; this builds
+ * the envelope, folds in pending history, and runs the reply dispatcher.
+ *
+ * Group history holds the messages the bot skipped since its last reply.
+ * DM history is a rolling window of the user's recent messages, so
+ * `dmHistoryLimit` keeps context across session resets.
+ */
+export async function dispatchKookInboundTurn(params: {
+  cfg: OpenClawConfig;
+  accountId: string;
+  ctx: KookMessageContext;
+  /** Source event, used to download attachments */
+  event?: KookEventData;
+  /** Short label for the system event queue, e.g. "KOOK DM from 123" */
+  inboundLabel: string;
+  historyLimit: number;
+  /** DMs held while the sender waited for pairing; shown whatever the limit */
+  heldMessages?: HistoryEntry[];
+  runtime?: RuntimeEnv;
+  chatHistories?: Map<string, HistoryEntry[]>;
+  dryRun?: KookDryRunSink;
+  /** Synthetic turn with no real trigger message: reply without quoting */
+  standalone?: boolean;
+}): Promise<void> {
+  const { cfg, accountId, ctx, event, inboundLabel, historyLimit, heldMessages, runtime, chatHistories, dryRun } = params;
+  const kookCfg = resolveKookAccount({ cfg, accountId }).config;
+  const log = runtime?.log ?? console.log;
+  const error = runtime?.error ?? console.error;
+  const isGroup = ctx.channelType === "GROUP";
+
+  try {
+    const core = getKookRuntime();
+
+    const kookFrom = `kook:${ctx.senderId}`;
+    const kookTo = isGroup ? `channel:${ctx.channelId}` : `user:${ctx.senderId}`;
+
+    // Per-conversation prompt and skills: channel/guild entry, or the DM entry
+    const groupConfig = isGroup
+      ? resolveKookGroupConfig({
+          cfg: kookCfg,
+          groupId: ctx.guildId ?? ctx.channelId,
+          channelId: ctx.channelId,
+        })
+      : undefined;
+    const dmConfig = isGroup ? undefined : resolveKookDmConfig({ cfg: kookCfg, senderId: ctx.senderId });
+    const systemPrompt = (groupConfig?.systemPrompt ?? dmConfig?.systemPrompt)?.trim() || undefined;
+    const skillFilter = groupConfig?.skills;
+
+    const route = core.channel.routing.resolveAgentRoute({
+      cfg,
+      channel: "kook",
+      accountId,
+      peer: {
+        kind: isGroup ? "group" : "dm",
+        id: isGroup ? ctx.channelId : ctx.senderId,
+      },
+    });
+
+    // Replays run in a side session so they never touch the live conversation
+    const sessionKey = dryRun ? `${route.sessionKey}:replay` : route.sessionKey;
+
+    if (!dryRun) {
+      const preview = ctx.content.replace(/\s+/g, " ").slice(0, 160);
+      core.system.enqueueSystemEvent(`${inboundLabel}: ${preview}`, {
+        sessionKey,
+        contextKey: `kook:message:${ctx.channelId}:${ctx.messageId}`,
+      });
+    }
+
+    // Remember the trigger so an edit or delete can be followed up on
+    if (event && !dryRun) {
+      rememberTurn(resolveKookAccountContext({ cfg, accountId }), event, ctx.channelType);
+    }
+
+    // Resolve media
+    const mediaMaxBytes = (kookCfg?.mediaMaxMb ?? 30) * 1024 * 1024;
+    const mediaList = event
+      ? await resolveKookMediaList({
+          cfg,
+          accountId,
+          event,
+          maxBytes: mediaMaxBytes,
+          log,
+        })
+      : [];
+    const mediaPayload = buildKookMediaPayload(mediaList);
+
+    // Build message body
+    const envelopeOptions = core.channel.reply.resolveEnvelopeFormatOptions(cfg);
+
+    let messageBody = ctx.content;
+
+    // Include media placeholders in text
+    if (mediaList.length > 0 && !messageBody.trim()) {
+      messageBody = mediaList.map((m) => m.placeholder).join(" ");
+    }
+
+    // Include quote context
+    if (ctx.quote) {
+      messageBody = `[Replying to: "${ctx.quote.content}"]\n\n${messageBody}`;
+    }
+
+    // Include speaker label
+    const speaker = ctx.senderName ?? ctx.senderId;
+    messageBody = `${speaker}: ${messageBody}`;
+
+    const envelopeFrom = isGroup ? `${ctx.channelId}:${ctx.senderId}` : ctx.senderId;
+
+    const body = core.channel.reply.formatAgentEnvelope({
+      channel: "KOOK",
+      from: envelopeFrom,
+      timestamp: new Date(),
+      envelope: envelopeOptions,
+      body: messageBody,
+    });
+
+    let combinedBody = body;
+    const historyKey = resolveKookHistoryKey(ctx);
+
+    const { historyMap, limit } = mergeKookHeldDmMessages({
+      chatHistories,
+      historyKey,
+      historyLimit,
+      heldMessages,
+    });
+
+    if (historyMap) {
+      combinedBody = buildPendingHistoryContextFromMap({
+        historyMap,
+        historyKey,
+        limit,
+        currentMessage: combinedBody,
+        formatEntry: (entry) =>
+          core.channel.reply.formatAgentEnvelope({
+            channel: "KOOK",
+            from: isGroup ? `${ctx.channelId}:${entry.sender}` : entry.sender,
+            timestamp: entry.timestamp,
+            body: entry.body,
+            envelope: envelopeOptions,
+          }),
+      });
+    }
+
+    const ctxPayload = core.channel.reply.finalizeInboundContext({
+      Body: combinedBody,
+      RawBody: ctx.content,
+      CommandBody: ctx.content,
+      From: kookFrom,
+      To: kookTo,
+      SessionKey: sessionKey,
+      AccountId: route.accountId,
+      ChatType: isGroup ? "group" : "direct",
+      GroupSubject: isGroup ? ctx.channelId : undefined,
+      GroupSpace: isGroup ? ctx.guildId : undefined,
+      GroupSystemPrompt: systemPrompt,
+      SenderName: ctx.senderName ?? ctx.senderId,
+      SenderId: ctx.senderId,
+      Provider: "kook" as const,
+      Surface: "kook" as const,
+      MessageSid: ctx.messageId,
+      Timestamp: Date.now(),
+      WasMentioned: ctx.mentionedBot,
+      CommandAuthorized: true,
+      OriginatingChannel: "kook" as const,
+      OriginatingTo: kookTo,
+      ...mediaPayload,
+    });
+
+    // For DMs, use sender ID as chat target (to reply back to the user).
+    // For groups, use channel ID.
+    const replyTargetId = isGroup ? ctx.channelId : ctx.senderId;
+
+    const { dispatcher, replyOptions, markDispatchIdle } = createKookReplyDispatcher({
+      cfg,
+      accountId,
+      agentId: route.agentId,
+      runtime: runtime as RuntimeEnv,
+      chatId: replyTargetId,
+      channelType: ctx.channelType,
+      replyToMessageId: params.standalone ? undefined : ctx.messageId,
+      dryRun,
+    });
+
+    log(`kook: dispatching to agent (session=${sessionKey})`);
+
+    const unregisterDryRun = dryRun ? registerKookDryRunSession(sessionKey, dryRun) : undefined;
+    const { queuedFinal, counts } = await core.channel.reply
+      .dispatchReplyFromConfig({
+        ctx: ctxPayload,
+        cfg,
+        dispatcher,
+        replyOptions: skillFilter ? { ...replyOptions, skillFilter } : replyOptions,
+      })
+      .finally(() => unregisterDryRun?.());
+
+    markDispatchIdle();
+
+    if (chatHistories) {
+      if (isGroup) {
+        clearHistoryEntriesIfEnabled({
+          historyMap: chatHistories,
+          historyKey,
+          limit: historyLimit,
+        });
+      } else {
+        recordPendingHistoryEntryIfEnabled({
+          historyMap: chatHistories,
+          historyKey,
+          limit: historyLimit,
+          entry: {
+            sender: ctx.senderId,
+            body: `${ctx.senderName ?? ctx.senderId}: ${ctx.content}`,
+            timestamp: Date.now(),
+            messageId: ctx.messageId,
+          },
+        });
+      }
+    }
+
+    log(`kook: dispatch complete (queuedFinal=${queuedFinal}, replies=${counts.final})`);
+  } catch (err) {
+    error(`kook: failed to dispatch message: ${String(err)}`);
+  }
+}
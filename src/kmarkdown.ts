@@ -21,15 +21,118 @@
  * - (emj)name(emj)[id] — custom emoji
  * - (ins)text(ins) — underline
  * - (spl)text(spl) — spoiler
+ *
+ * Mention, role, channel and emoji tokens in the output are escaped unless
+ * the mention policy allows them, so the agent cannot be talked into
+ * pinging a whole guild.
  */
 
-import type { KookConfig } from "./types.js";
+import type { KookConfig, KookMentionPolicy } from "./types.js";
+
+/** Used when the target's policy is unknown: no role or mass mentions */
+export const DEFAULT_MENTION_POLICY: KookMentionPolicy = {
+  users: true,
+  roles: false,
+  channels: true,
+  emoji: true,
+  everyone: false,
+};
+
+const CODE_PATTERN = /```[\s\S]*?```|`[^`\n]*`/g;
+const MENTION_TOKEN_PATTERN = /\((met|rol|chn|emj)\)([^()\n]*?)\(\1\)/g;
+
+function isTokenAllowed(tag: string, value: string, policy: KookMentionPolicy): boolean {
+  switch (tag) {
+    case "met":
+      return value === "all" || value === "here" ? policy.everyone : policy.users;
+    case "rol":
+      return policy.roles;
+    case "chn":
+      return policy.channels;
+    default:
+      return policy.emoji;
+  }
+}
+
+/**
+ * Escape KMarkdown mention tokens the policy does not allow, e.g.
+ * (met)all(met) → \(met\)all\(met\), which KOOK shows as text. Quoted
+ * lines are treated like any other text; code is left as it is, since KOOK
+ * does not render tokens there.
+ */
+export function sanitizeKMarkdownMentions(
+  text: string,
+  policy: KookMentionPolicy = DEFAULT_MENTION_POLICY,
+): string {
+  if (!text.includes("(")) return text;
+
+  const escapeTokens = (segment: string) =>
+    segment.replace(MENTION_TOKEN_PATTERN, (token, tag: string, value: string) =>
+      isTokenAllowed(tag, value.trim(), policy) ? token : `\\(${tag}\\)${value}\\(${tag}\\)`,
+    );
+
+  let result = "";
+  let last = 0;
+  for (const match of text.matchAll(CODE_PATTERN)) {
+    result += escapeTokens(text.slice(last, match.index)) + match[0];
+    last = match.index + match[0].length;
+  }
+  return result + escapeTokens(text.slice(last));
+}
+
+/**
+ * Parse card message content (a JSON array of `{ type: "card" }`), or
+ * undefined when `content` is not card JSON.
+ */
+export function parseKookCardContent(content: string): unknown[] | undefined {
+  if (!content.trimStart().startsWith("[")) return undefined;
+  try {
+    const parsed: unknown = JSON.parse(content);
+    if (!Array.isArray(parsed) || parsed.length === 0) return undefined;
+    const allCards = parsed.every(
+      (card) => typeof card === "object" && card !== null && (card as { type?: unknown }).type === "card",
+    );
+    return allCards ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * `sanitizeKMarkdownMentions` for card message JSON: applied to every
+ * `kmarkdown` text element at any depth (sections, context, paragraph
+ * fields, button text). Content that is not card JSON is returned as is.
+ */
+export function sanitizeCardMentions(
+  content: string,
+  policy: KookMentionPolicy = DEFAULT_MENTION_POLICY,
+): string {
+  const cards = parseKookCardContent(content);
+  if (!cards) return content;
+
+  const visit = (node: unknown): unknown => {
+    if (Array.isArray(node)) return node.map(visit);
+    if (typeof node !== "object" || node === null) return node;
+    const copy: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(node)) copy[key] = visit(value);
+    if (copy.type === "kmarkdown" && typeof copy.content === "string") {
+      copy.content = sanitizeKMarkdownMentions(copy.content, policy);
+    }
+    return copy;
+  };
+  return JSON.stringify(visit(cards));
+}
 
 /**
  * Convert standard Markdown to KMarkdown.
  * Most syntax passes through unchanged; we only handle incompatible elements.
+ * Mention tokens are checked against `mentions` (default: no role or mass
+ * mentions).
  */
-export function markdownToKMarkdown(text: string): string {
+export function markdownToKMarkdown(
+  text: string,
+  mentions: KookMentionPolicy = DEFAULT_MENTION_POLICY,
+): string {
   let result = text;
 
   // Convert HTML underline to KMarkdown underline
@@ -54,7 +157,7 @@ export function markdownToKMarkdown(text: string): string {
   // Detect markdown table pattern: | ... | ... | with separator row
   result = convertTablesToCodeBlocks(result);
 
-  return result;
+  return sanitizeKMarkdownMentions(result, mentions);
 }
 
 /**
@@ -1,22 +1,21 @@
 import type { OpenClawConfig } from "openclaw/plugin-sdk";
-import type { KookConfig, KookEventData, KookMediaInfo, KookAttachment } from "./types.js";
-import { createKookClient } from "./client.js";
+import type { KookEventData, KookMediaInfo, KookAttachment } from "./types.js";
+import { resolveKookAccountContext } from "./context.js";
 import { getKookRuntime } from "./runtime.js";
 import { sendKookMessage } from "./send.js";
+import type { KookFetch } from "./http.js";
 
 /**
  * Upload a file to KOOK CDN via asset/create.
  */
 export async function uploadMediaKook(params: {
   cfg: OpenClawConfig;
+  accountId?: string | null;
   buffer: Buffer;
   filename: string;
 }): Promise<{ url: string }> {
-  const { cfg, buffer, filename } = params;
-  const kookCfg = cfg.channels?.kook as KookConfig | undefined;
-  if (!kookCfg?.token) throw new Error("KOOK channel not configured");
-
-  const client = createKookClient(kookCfg);
+  const { cfg, accountId, buffer, filename } = params;
+  const { client } = resolveKookAccountContext({ cfg, accountId });
   return client.uploadAsset(buffer, filename);
 }
 
@@ -26,10 +25,13 @@ export async function uploadMediaKook(params: {
 export async function downloadMediaKook(params: {
   url: string;
   maxBytes: number;
+  /** Account transport, so downloads use the configured proxy */
+  fetch?: KookFetch;
 }): Promise<{ buffer: Buffer; contentType?: string }> {
   const { url, maxBytes } = params;
+  const fetchImpl = params.fetch ?? fetch;
 
-  const res = await fetch(url);
+  const res = await fetchImpl(url);
   if (!res.ok) throw new Error(`Failed to download media: HTTP ${res.status}`);
 
   const contentType = res.headers.get("content-type") ?? undefined;
@@ -67,11 +69,12 @@ function inferPlaceholder(messageType: number): string {
  */
 export async function resolveKookMediaList(params: {
   cfg: OpenClawConfig;
+  accountId?: string | null;
   event: KookEventData;
   maxBytes: number;
   log?: (msg: string) => void;
 }): Promise<KookMediaInfo[]> {
-  const { cfg, event, maxBytes, log } = params;
+  const { cfg, accountId, event, maxBytes, log } = params;
   const mediaTypes = [2, 3, 4, 8]; // image, video, file, audio
   if (!mediaTypes.includes(event.type)) return [];
 
@@ -95,6 +98,7 @@ export async function resolveKookMediaList(params: {
     const { buffer, contentType: rawContentType } = await downloadMediaKook({
       url: mediaUrl,
       maxBytes,
+      fetch: resolveKookAccountContext({ cfg, accountId }).transport.fetch,
     });
 
     let contentType = rawContentType;
@@ -159,21 +163,23 @@ export function buildKookMediaPayload(
  */
 export async function sendMediaKook(params: {
   cfg: OpenClawConfig;
+  accountId?: string | null;
   channelType: "GROUP" | "PERSON";
   to: string;
   mediaUrl: string;
   caption?: string;
 }): Promise<{ messageId: string }> {
-  const { cfg, channelType, to, mediaUrl, caption } = params;
+  const { cfg, accountId, channelType, to, mediaUrl, caption } = params;
 
   // Upload media to KOOK CDN
-  const res = await fetch(mediaUrl);
+  const { transport } = resolveKookAccountContext({ cfg, accountId });
+  const res = await transport.fetch(mediaUrl);
   if (!res.ok) throw new Error(`Failed to fetch media: HTTP ${res.status}`);
 
   const buffer = Buffer.from(await res.arrayBuffer());
   const filename = mediaUrl.split("/").pop() || "file";
 
-  const { url: kookUrl } = await uploadMediaKook({ cfg, buffer, filename });
+  const { url: kookUrl } = await uploadMediaKook({ cfg, accountId, buffer, filename });
 
   // Send as image message (type=2) or as KMarkdown with link
   const contentType = res.headers.get("content-type") ?? "";
@@ -181,6 +187,7 @@ export async function sendMediaKook(params: {
   if (contentType.startsWith("image/")) {
     const result = await sendKookMessage({
       cfg,
+      accountId,
       channelType,
       to,
       content: kookUrl,
@@ -193,6 +200,7 @@ export async function sendMediaKook(params: {
   const text = caption ? `${caption}\n${kookUrl}` : kookUrl;
   const result = await sendKookMessage({
     cfg,
+    accountId,
     channelType,
     to,
     content: text,
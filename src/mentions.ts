@@ -0,0 +1,352 @@
+import type { OpenClawConfig } from "openclaw/plugin-sdk";
+import type { KookChannel, KookEventExtra, KookMentionPolicy, KookRole, KookUser } from "./types.js";
+import { resolveKookAccount } from "./accounts.js";
+import { resolveKookAccountContext, type KookAccountContext, type KookGuildDirectory } from "./context.js";
+import { resolveKookMentionPolicy } from "./policy.js";
+import { markdownToKMarkdown, stripKMarkdownSyntax } from "./kmarkdown.js";
+
+/**
+ * Mention handling in both directions.
+ *
+ * Inbound, KMarkdown tokens become names the agent can read: (met)id(met) →
+ * `@Nickname`, (rol)id(rol) → `@RoleName`, (chn)id(chn) → `#channel`. The
+ * names are remembered per guild so the agent can mention the same people
+ * back by writing `@Nickname`.
+ *
+ * Outbound, the agent writes mentions the way people read them: `@Alice`,
+ * `@Alice#1234` (username#identify_num) or `#general`. Before a reply goes
+ * out these are turned into KOOK syntax ((met)id(met), (chn)id(chn)) using
+ * a member and channel cache for the reply's guild, so the people named are
+ * actually pinged. A name that does not match exactly one member or channel
+ * stays plain text. Each kind is only resolved when the mention policy
+ * allows it; `@everyone` / `@here` need `mentions.everyone`.
+ */
+
+const DIRECTORY_TTL_MS = 10 * 60 * 1000;
+// Per guild; enough for the names a busy channel keeps using
+const MEMBER_SEARCH_LIMIT = 500;
+
+// Code, existing KMarkdown tokens, link targets and URLs are left untouched
+const PROTECTED_PATTERN =
+  /```[\s\S]*?```|`[^`\n]*`|\((met|rol|chn|emj)\)[\s\S]*?\(\1\)(?:\[[^\]]*\])?|\]\([^)]*\)|https?:\/\/\S+/g;
+
+// Name characters stop at whitespace, markup and common punctuation
+const NAME_CHARS = "[^\\s@#()\\[\\]{}<>*_~`|,.!?;:'\"，。！？；：、（）【】「」]+";
+const USER_MENTION_PATTERN = new RegExp(`(?<![\\w@])@(${NAME_CHARS})(?:#(\\d{4}))?`, "gu");
+const CHANNEL_MENTION_PATTERN = new RegExp(`(?<![\\w#&/])#(${NAME_CHARS})`, "gu");
+
+const MASS_MENTIONS: Record<string, string> = {
+  everyone: "all",
+  all: "all",
+  here: "here",
+};
+
+export type KookMentionDirectory = {
+  /** Member recently seen under exactly this display name, if unambiguous */
+  knownMember?: (name: string) => string | undefined;
+  /** Members whose username or nickname may be `name` */
+  findMembers: (name: string) => Promise<KookUser[]>;
+  listChannels: () => Promise<KookChannel[]>;
+};
+
+type MentionKinds = Pick<KookMentionPolicy, "users" | "channels" | "everyone">;
+
+/**
+ * Rewrite `@name`, `@username#1234` and `#channel` in `text` to KOOK mention
+ * syntax. Only unambiguous matches of allowed kinds are rewritten.
+ */
+export async function resolveOutboundMentions(
+  text: string,
+  directory: KookMentionDirectory,
+  opts: MentionKinds,
+): Promise<string> {
+  if (!text.includes("@") && !text.includes("#")) return text;
+
+  let result = "";
+  let last = 0;
+  for (const match of text.matchAll(PROTECTED_PATTERN)) {
+    result += await resolveSegment(text.slice(last, match.index), directory, opts);
+    result += match[0];
+    last = match.index + match[0].length;
+  }
+  return result + (await resolveSegment(text.slice(last), directory, opts));
+}
+
+async function resolveSegment(
+  segment: string,
+  directory: KookMentionDirectory,
+  opts: MentionKinds,
+): Promise<string> {
+  if (!segment) return segment;
+
+  let result = await replaceAsync(segment, USER_MENTION_PATTERN, async (match, [name, tag]) => {
+    const mass = MASS_MENTIONS[name.toLowerCase()];
+    if (mass && !tag) {
+      return opts.everyone ? `(met)${mass}(met)` : match;
+    }
+    if (!opts.users) return match;
+    const known = tag ? undefined : directory.knownMember?.(name);
+    if (known) return `(met)${known}(met)`;
+    const members = await directory.findMembers(name);
+    const userId = pickMember(members, name, tag);
+    return userId ? `(met)${userId}(met)` : match;
+  });
+
+  if (opts.channels && result.includes("#")) {
+    result = await replaceAsync(result, CHANNEL_MENTION_PATTERN, async (match, [name]) => {
+      const lowered = name.toLowerCase();
+      const channels = (await directory.listChannels()).filter(
+        (channel) => !channel.is_category && channel.name.toLowerCase() === lowered,
+      );
+      return channels.length === 1 ? `(chn)${channels[0].id}(chn)` : match;
+    });
+  }
+  return result;
+}
+
+/**
+ * `username#identify_num` is unique; a bare name must match exactly one
+ * member's nickname or username (case-insensitive).
+ */
+function pickMember(members: KookUser[], name: string, tag?: string): string | undefined {
+  const lowered = name.toLowerCase();
+  if (tag) {
+    const tagged = members.find(
+      (member) => member.username.toLowerCase() === lowered && member.identify_num === tag,
+    );
+    return tagged?.id;
+  }
+  const matches = members.filter(
+    (member) => member.nickname?.toLowerCase() === lowered || member.username.toLowerCase() === lowered,
+  );
+  return matches.length === 1 ? matches[0].id : undefined;
+}
+
+async function replaceAsync(
+  text: string,
+  pattern: RegExp,
+  replacer: (match: string, groups: [string, string | undefined]) => Promise<string>,
+): Promise<string> {
+  let result = "";
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    result += text.slice(last, match.index) + (await replacer(match[0], [match[1], match[2]]));
+    last = match.index + match[0].length;
+  }
+  return result + text.slice(last);
+}
+
+async function resolveGuildId(context: KookAccountContext, channelId: string): Promise<string | undefined> {
+  const cached = context.caches.channelGuilds.get(channelId);
+  if (cached) return cached;
+  try {
+    const channel = await context.client.getChannel(channelId);
+    if (channel.guild_id) context.caches.channelGuilds.set(channelId, channel.guild_id);
+    return channel.guild_id || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function getGuildDirectory(context: KookAccountContext, guildId: string): KookGuildDirectory {
+  let directory = context.caches.guildDirectories.get(guildId);
+  if (!directory) {
+    directory = { memberSearches: new Map(), memberNames: new Map() };
+    context.caches.guildDirectories.set(guildId, directory);
+  }
+  return directory;
+}
+
+/**
+ * Mention lookups for one guild, backed by the account's cache. Lookup
+ * failures count as "no match" so a reply is never held up by them.
+ */
+export function createKookMentionDirectory(
+  context: KookAccountContext,
+  guildId: string,
+  log?: (...args: unknown[]) => void,
+): KookMentionDirectory {
+  const cache = getGuildDirectory(context, guildId);
+
+  return {
+    knownMember: (name) => {
+      const lowered = name.toLowerCase();
+      const now = Date.now();
+      const ids: string[] = [];
+      for (const [userId, entry] of cache.memberNames) {
+        if (entry.expireAt > now && entry.name.toLowerCase() === lowered) ids.push(userId);
+      }
+      return ids.length === 1 ? ids[0] : undefined;
+    },
+    findMembers: async (name) => {
+      const key = name.toLowerCase();
+      const cached = cache.memberSearches.get(key);
+      if (cached && cached.expireAt > Date.now()) return cached.items;
+      try {
+        const { items } = await context.client.listGuildMembers(guildId, { search: name, pageSize: 50 });
+        cache.memberSearches.delete(key);
+        cache.memberSearches.set(key, { items: items ?? [], expireAt: Date.now() + DIRECTORY_TTL_MS });
+        if (cache.memberSearches.size > MEMBER_SEARCH_LIMIT) {
+          const oldest = cache.memberSearches.keys().next().value;
+          if (oldest !== undefined) cache.memberSearches.delete(oldest);
+        }
+        return items ?? [];
+      } catch (err) {
+        log?.(`kook: member lookup for "@${name}" in guild ${guildId} failed: ${String(err)}`);
+        return [];
+      }
+    },
+    listChannels: async () => {
+      if (cache.channels && cache.channels.expireAt > Date.now()) return cache.channels.items;
+      try {
+        const { items } = await context.client.listChannels(guildId);
+        cache.channels = { items: items ?? [], expireAt: Date.now() + DIRECTORY_TTL_MS };
+        return cache.channels.items;
+      } catch (err) {
+        log?.(`kook: channel lookup in guild ${guildId} failed: ${String(err)}`);
+        return [];
+      }
+    },
+  };
+}
+
+/**
+ * Mention policy for a send target: the channel's own and its guild's
+ * settings, or the top-level ones for DMs and channels whose guild cannot
+ * be looked up.
+ */
+export async function resolveKookTargetMentionPolicy(params: {
+  cfg: OpenClawConfig;
+  accountId?: string | null;
+  channelType: "GROUP" | "PERSON";
+  /** Channel ID, or the user ID for DMs; when unknown the top-level policy applies */
+  to?: string;
+}): Promise<KookMentionPolicy> {
+  const { cfg, accountId, channelType, to } = params;
+  const kookCfg = resolveKookAccount({ cfg, accountId }).config;
+  const guildId = channelType === "GROUP" && to
+    ? await resolveGuildId(resolveKookAccountContext({ cfg, accountId }), to)
+    : undefined;
+  return resolveKookMentionPolicy({ cfg: kookCfg, groupId: guildId, channelId: guildId ? to : undefined });
+}
+
+/**
+ * Markdown from the agent → KMarkdown for one target: tokens the target's
+ * mention policy forbids are escaped, then `@name` / `#channel` are resolved.
+ * Direct messages have no guild to look names up in, so only the escaping
+ * applies there.
+ */
+export async function renderKookOutboundText(params: {
+  cfg: OpenClawConfig;
+  accountId?: string | null;
+  channelType: "GROUP" | "PERSON";
+  /** Channel ID, or the user ID for DMs */
+  to: string;
+  markdown: string;
+  log?: (...args: unknown[]) => void;
+}): Promise<string> {
+  const { cfg, accountId, channelType, to, markdown, log } = params;
+  const policy = await resolveKookTargetMentionPolicy({ cfg, accountId, channelType, to });
+  const text = markdownToKMarkdown(markdown, policy);
+  if (channelType !== "GROUP" || (!text.includes("@") && !text.includes("#"))) return text;
+
+  const context = resolveKookAccountContext({ cfg, accountId });
+  const guildId = await resolveGuildId(context, to);
+  if (!guildId) return text;
+  return resolveOutboundMentions(text, createKookMentionDirectory(context, guildId, log), policy);
+}
+
+// ---- Inbound ----
+
+const INBOUND_TOKEN_PATTERN = /\((met|rol|chn)\)([^()\n]+?)\(\1\)/g;
+// KMarkdown escapes punctuation with a backslash
+const ESCAPE_PATTERN = /\\([\\`*_~()[\]{}#>+\-.!|:])/g;
+
+function rememberMemberName(cache: KookGuildDirectory, userId: string, name: string): void {
+  cache.memberNames.delete(userId);
+  cache.memberNames.set(userId, { name, expireAt: Date.now() + DIRECTORY_TTL_MS });
+  if (cache.memberNames.size > MEMBER_SEARCH_LIMIT) {
+    const oldest = cache.memberNames.keys().next().value;
+    if (oldest !== undefined) cache.memberNames.delete(oldest);
+  }
+}
+
+async function lookupMemberName(
+  context: KookAccountContext,
+  cache: KookGuildDirectory | undefined,
+  guildId: string | undefined,
+  userId: string,
+): Promise<string | undefined> {
+  const now = Date.now();
+  const cached = cache?.memberNames.get(userId);
+  if (cached && cached.expireAt > now) return cached.name;
+  const sender = context.caches.senderNames.get(userId);
+  if (sender && sender.expireAt > now) return sender.name;
+  if (!guildId) return undefined;
+  try {
+    const user = await context.client.getUser(userId, guildId);
+    return user.nickname || user.username || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function lookupRoles(context: KookAccountContext, cache: KookGuildDirectory, guildId: string): Promise<KookRole[]> {
+  if (cache.roles && cache.roles.expireAt > Date.now()) return cache.roles.items;
+  try {
+    const { items } = await context.client.listGuildRoles(guildId, { pageSize: 100 });
+    cache.roles = { items: items ?? [], expireAt: Date.now() + DIRECTORY_TTL_MS };
+    return cache.roles.items;
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Turn the mention tokens of an inbound KMarkdown message into readable
+ * names, using the message's own `mention_part` / `mention_role_part` /
+ * `channel_part` first and cached guild lookups for the rest. Whatever
+ * cannot be named keeps its ID. The remaining KMarkdown-only syntax is
+ * stripped as before.
+ */
+export async function normalizeKookInboundMentions(params: {
+  context: KookAccountContext;
+  guildId?: string;
+  content: string;
+  kmarkdown?: KookEventExtra["kmarkdown"];
+}): Promise<string> {
+  const { context, guildId, content, kmarkdown } = params;
+  const cache = guildId ? getGuildDirectory(context, guildId) : undefined;
+  const directory = cache && guildId ? createKookMentionDirectory(context, guildId) : undefined;
+
+  const normalized = await replaceAsync(content, INBOUND_TOKEN_PATTERN, async (_match, [tag, value]) => {
+    const id = value!.trim();
+
+    if (tag === "met") {
+      if (id === "all") return "@everyone";
+      if (id === "here") return "@here";
+      const part = kmarkdown?.mention_part?.find((entry) => entry.id === id);
+      const name = part?.username || (await lookupMemberName(context, cache, guildId, id));
+      if (!name) return `@${id}`;
+      if (cache) rememberMemberName(cache, id, name);
+      return `@${name}`;
+    }
+
+    if (tag === "rol") {
+      const roleId = Number(id);
+      let name = kmarkdown?.mention_role_part?.find((entry) => entry.role_id === roleId)?.name;
+      if (!name && cache && guildId) {
+        name = (await lookupRoles(context, cache, guildId)).find((role) => role.role_id === roleId)?.name;
+      }
+      return name ? `@${name}` : `@role:${id}`;
+    }
+
+    let name = kmarkdown?.channel_part?.find((entry) => entry.id === id)?.name;
+    if (!name && directory) {
+      name = (await directory.listChannels()).find((channel) => channel.id === id)?.name;
+    }
+    return `#${name ?? id}`;
+  });
+
+  return stripKMarkdownSyntax(normalized).replace(ESCAPE_PATTERN, "$1");
+}
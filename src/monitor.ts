@@ -1,86 +1,163 @@
 import type { OpenClawConfig, RuntimeEnv, HistoryEntry } from "openclaw/plugin-sdk";
 import type { KookConfig, KookEventData } from "./types.js";
-import { resolveKookToken } from "./accounts.js";
-import { createKookClient } from "./client.js";
-import { KookWSClient } from "./ws-client.js";
+import { resolveKookAccount } from "./accounts.js";
+import {
+  resolveKookAccountContext,
+  listKookAccountContexts,
+  refreshBotGuildRole,
+  type KookAccountContext,
+} from "./context.js";
+import { KookWSClient, type KookWSStats } from "./ws-client.js";
+import { KookWebhookServer, DEFAULT_WEBHOOK_PORT } from "./webhook.js";
+import { KookSessionStore } from "./session-store.js";
+import { KookEventRecorder } from "./recorder.js";
 import { handleKookMessage } from "./bot.js";
-import { probeKook } from "./probe.js";
-import { getQuotaTracker, resetQuotaTracker } from "./quota.js";
 
 export type MonitorKookOpts = {
   config?: OpenClawConfig;
   runtime?: RuntimeEnv;
   abortSignal?: AbortSignal;
   accountId?: string;
+  /** Receives runtime status patches (e.g. gateway buffer counters) */
+  statusSink?: (patch: Partial<KookWSStats>) => void;
 };
 
-let currentWsClient: KookWSClient | null = null;
-let botId: string | undefined;
-
-async function fetchBotId(cfg: KookConfig): Promise<string | undefined> {
+async function fetchBotIdentity(context: KookAccountContext): Promise<void> {
   try {
-    const result = await probeKook(cfg);
-    return result.ok ? result.botId : undefined;
+    const me = await context.client.getMe();
+    context.botId = me.id;
+    context.botName = me.username;
   } catch {
-    return undefined;
+    // Keep whatever identity we had; mention detection degrades without it
+  }
+}
+
+/**
+ * Find the bot's managed role in every guild it is in, so role mentions of
+ * the bot can be matched exactly. Runs in the background; guilds not done
+ * yet are looked up when a message mentions a role there.
+ */
+async function loadBotGuildRoles(
+  context: KookAccountContext,
+  log: (...args: unknown[]) => void,
+): Promise<void> {
+  if (!context.botId) return;
+  try {
+    const { items } = await context.client.listGuilds();
+    for (const guild of items ?? []) {
+      await refreshBotGuildRole(context, guild.id);
+    }
+    log(`kook: found the bot's role in ${context.caches.botRoles.size} of ${(items ?? []).length} guilds`);
+  } catch (err) {
+    log(`kook: failed to look up the bot's guild roles: ${String(err)}`);
   }
 }
 
+function createEventRecorder(
+  context: KookAccountContext,
+  kookCfg: KookConfig,
+  log: (...args: unknown[]) => void,
+): KookEventRecorder | null {
+  const recorderCfg = kookCfg.eventRecorder;
+  if (!recorderCfg?.enabled) return null;
+
+  const recorder = new KookEventRecorder({
+    accountId: context.accountId,
+    filePath: recorderCfg.path?.trim() || undefined,
+    redactContent: recorderCfg.redactContent,
+    token: context.token,
+    log,
+  });
+  log(`kook: recording gateway events to ${recorder.filePath}`);
+  return recorder;
+}
+
 export async function monitorKookProvider(opts: MonitorKookOpts = {}): Promise<void> {
   const cfg = opts.config;
   if (!cfg) {
     throw new Error("Config is required for KOOK monitor");
   }
 
-  const kookCfg = cfg.channels?.kook as KookConfig | undefined;
-  const token = resolveKookToken(kookCfg);
-  if (!token) {
-    throw new Error("KOOK token not configured");
+  const account = resolveKookAccount({ cfg, accountId: opts.accountId });
+  if (!account.token) {
+    throw new Error(`KOOK token not configured for account "${account.accountId}"`);
   }
+  const { config: kookCfg } = account;
 
   const log = opts.runtime?.log ?? console.log;
-  const error = opts.runtime?.error ?? console.error;
 
-  // Fetch bot info
-  if (kookCfg) {
-    botId = await fetchBotId(kookCfg);
-    log(`kook: bot ID resolved: ${botId ?? "unknown"}`);
+  const context = resolveKookAccountContext({ cfg, accountId: account.accountId, log });
+  if (context.transport.proxyLabel) {
+    log(`kook: using proxy ${context.transport.proxyLabel}`);
   }
 
-  // Initialize quota tracker
-  resetQuotaTracker();
-  const quotaTracker = getQuotaTracker({
-    warningThreshold: kookCfg?.quotaWarningThreshold ?? 0.8,
-    log,
-  });
+  // Stopping the account also cancels REST calls still in flight or queued
+  const detachAbort = opts.abortSignal ? context.client.setAbortSignal(opts.abortSignal) : undefined;
 
-  const connectionMode = kookCfg?.connectionMode ?? "websocket";
+  try {
+    // Fetch bot info
+    await fetchBotIdentity(context);
+    log(`kook: bot ID resolved for account ${context.accountId}: ${context.botId ?? "unknown"}`);
+    void loadBotGuildRoles(context, log);
 
-  if (connectionMode === "websocket") {
-    return monitorWebSocket({ cfg, kookCfg: kookCfg!, runtime: opts.runtime, abortSignal: opts.abortSignal });
-  }
+    const connectionMode = kookCfg.connectionMode ?? "websocket";
+
+    if (connectionMode === "websocket") {
+      return await monitorWebSocket({
+        cfg,
+        kookCfg,
+        context,
+        runtime: opts.runtime,
+        abortSignal: opts.abortSignal,
+        statusSink: opts.statusSink,
+      });
+    }
 
-  log("kook: webhook mode not yet implemented");
+    return await monitorWebhook({
+      cfg,
+      kookCfg,
+      context,
+      runtime: opts.runtime,
+      abortSignal: opts.abortSignal,
+    });
+  } finally {
+    detachAbort?.();
+  }
 }
 
 async function monitorWebSocket(params: {
   cfg: OpenClawConfig;
   kookCfg: KookConfig;
+  context: KookAccountContext;
   runtime?: RuntimeEnv;
   abortSignal?: AbortSignal;
+  statusSink?: (patch: Partial<KookWSStats>) => void;
 }): Promise<void> {
-  const { cfg, kookCfg, runtime, abortSignal } = params;
+  const { cfg, kookCfg, context, runtime, abortSignal, statusSink } = params;
+  const { accountId } = context;
   const log = runtime?.log ?? console.log;
   const error = runtime?.error ?? console.error;
 
   log("kook: starting WebSocket connection...");
 
-  const client = createKookClient(kookCfg);
   const chatHistories = new Map<string, HistoryEntry[]>();
+  const recorder = createEventRecorder(context, kookCfg, log);
+
+  // Resume the previous gateway session if the process was restarted
+  const sessionStore = new KookSessionStore(accountId, log);
+  const initialSession = await sessionStore.load();
+  if (initialSession) {
+    log(`kook: found persisted gateway session ${initialSession.sessionId} (sn=${initialSession.lastSn}), will try to resume`);
+  }
 
   const wsClient = new KookWSClient({
-    client,
+    client: context.client,
     compress: true,
+    initialSession,
+    onSessionUpdate: (session) => sessionStore.update(session),
+    recorder,
+    agent: context.transport.wsAgent,
+    onStats: (stats) => statusSink?.(stats),
     log: (...args) => log("kook:", ...args),
     error: (...args) => error("kook:", ...args),
     abortSignal,
@@ -97,8 +174,8 @@ async function monitorWebSocket(params: {
       // Handle events asynchronously
       handleKookMessage({
         cfg,
+        accountId,
         event,
-        botId,
         runtime,
         chatHistories,
       }).catch((err) => {
@@ -107,13 +184,15 @@ async function monitorWebSocket(params: {
     },
   });
 
-  currentWsClient = wsClient;
+  context.wsClient = wsClient;
 
-  return new Promise<void>((resolve) => {
+  return new Promise<void>((resolve, reject) => {
     const cleanup = () => {
-      if (currentWsClient === wsClient) {
-        currentWsClient = null;
+      if (context.wsClient === wsClient) {
+        context.wsClient = null;
       }
+      void sessionStore.flush();
+      void recorder?.flush();
     };
 
     const handleAbort = () => {
@@ -131,17 +210,106 @@ async function monitorWebSocket(params: {
 
     abortSignal?.addEventListener("abort", handleAbort, { once: true });
 
+    // An invalid token or unreachable gateway: fail the account like the webhook does
     wsClient.start().catch((err) => {
       error(`kook: WebSocket start failed: ${err}`);
+      abortSignal?.removeEventListener("abort", handleAbort);
+      wsClient.stop();
+      cleanup();
+      reject(err);
+    });
+  });
+}
+
+async function monitorWebhook(params: {
+  cfg: OpenClawConfig;
+  kookCfg: KookConfig;
+  context: KookAccountContext;
+  runtime?: RuntimeEnv;
+  abortSignal?: AbortSignal;
+}): Promise<void> {
+  const { cfg, kookCfg, context, runtime, abortSignal } = params;
+  const { accountId } = context;
+  const log = runtime?.log ?? console.log;
+  const error = runtime?.error ?? console.error;
+
+  const verifyToken = kookCfg.verifyToken?.trim();
+  if (!verifyToken) {
+    throw new Error("KOOK verifyToken is required for webhook mode");
+  }
+
+  log("kook: starting webhook receiver...");
+
+  const chatHistories = new Map<string, HistoryEntry[]>();
+  const recorder = createEventRecorder(context, kookCfg, log);
+
+  const webhookServer = new KookWebhookServer({
+    port: kookCfg.webhookPort ?? DEFAULT_WEBHOOK_PORT,
+    path: kookCfg.webhookPath ?? "/kook/events",
+    verifyToken,
+    encryptKey: kookCfg.encryptKey?.trim() || undefined,
+    log: (...args) => log("kook:", ...args),
+    error: (...args) => error("kook:", ...args),
+    abortSignal,
+    onEvent: (event: KookEventData) => {
+      try {
+        recorder?.record(event);
+      } catch (err) {
+        error("kook: event recorder error", err);
+      }
+      handleKookMessage({
+        cfg,
+        accountId,
+        event,
+        runtime,
+        chatHistories,
+      }).catch((err) => {
+        error(`kook: error handling event: ${String(err)}`);
+      });
+    },
+  });
+
+  context.webhookServer = webhookServer;
+
+  return new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      if (context.webhookServer === webhookServer) {
+        context.webhookServer = null;
+      }
+      void recorder?.flush();
+    };
+
+    const handleAbort = () => {
+      log("kook: abort signal received, stopping");
+      webhookServer.stop();
       cleanup();
       resolve();
+    };
+
+    if (abortSignal?.aborted) {
+      cleanup();
+      resolve();
+      return;
+    }
+
+    abortSignal?.addEventListener("abort", handleAbort, { once: true });
+
+    // A port in use or a bad address is a config problem: fail the account
+    webhookServer.start().catch((err) => {
+      error(`kook: webhook server start failed: ${err}`);
+      abortSignal?.removeEventListener("abort", handleAbort);
+      cleanup();
+      reject(err);
     });
   });
 }
 
-export function stopKookMonitor(): void {
-  if (currentWsClient) {
-    currentWsClient.stop();
-    currentWsClient = null;
+export function stopKookMonitor(accountId?: string): void {
+  for (const context of listKookAccountContexts()) {
+    if (accountId && context.accountId !== accountId) continue;
+    context.wsClient?.stop();
+    context.wsClient = null;
+    context.webhookServer?.stop();
+    context.webhookServer = null;
   }
 }
@@ -1,5 +1,6 @@
 import type { ChannelOnboardingAdapter } from "openclaw/plugin-sdk";
 import type { OpenClawConfig } from "openclaw/plugin-sdk";
+import { listEnabledKookAccounts } from "./accounts.js";
 
 /**
  * KOOK onboarding adapter.
@@ -9,8 +10,7 @@ import type { OpenClawConfig } from "openclaw/plugin-sdk";
 const channel = "kook" as const;
 
 function isKookConfigured(cfg: OpenClawConfig): boolean {
-  const kook = (cfg as any).channels?.kook;
-  return Boolean(kook?.token && kook?.enabled !== false);
+  return listEnabledKookAccounts(cfg).length > 0;
 }
 
 export const kookOnboardingAdapter: ChannelOnboardingAdapter = {
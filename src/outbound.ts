@@ -2,21 +2,28 @@ import type { ChannelOutboundAdapter } from "openclaw/plugin-sdk";
 import { getKookRuntime } from "./runtime.js";
 import { sendKookMessage } from "./send.js";
 import { sendMediaKook } from "./media.js";
-import { markdownToKMarkdown } from "./kmarkdown.js";
+import { renderKookOutboundText } from "./mentions.js";
 
 export const kookOutbound: ChannelOutboundAdapter = {
   deliveryMode: "direct",
   chunker: (text, limit) => getKookRuntime().channel.text.chunkMarkdownText(text, limit),
   chunkerMode: "markdown",
   textChunkLimit: 5000,
-  sendText: async ({ cfg, to, text, replyToId }) => {
+  sendText: async ({ cfg, to, text, replyToId, accountId }) => {
     // Determine channel type from target format
     const channelType = to.startsWith("user:") ? "PERSON" : "GROUP";
     const targetId = to.replace(/^(channel|user):/, "");
-    const content = markdownToKMarkdown(text);
+    const content = await renderKookOutboundText({
+      cfg,
+      accountId,
+      channelType,
+      to: targetId,
+      markdown: text,
+    });
 
     const result = await sendKookMessage({
       cfg,
+      accountId,
       channelType,
       to: targetId,
       content,
@@ -25,15 +32,22 @@ export const kookOutbound: ChannelOutboundAdapter = {
     });
     return { channel: "kook", messageId: result.msgId, chatId: targetId };
   },
-  sendMedia: async ({ cfg, to, text, mediaUrl, replyToId }) => {
+  sendMedia: async ({ cfg, to, text, mediaUrl, replyToId, accountId }) => {
     const channelType = to.startsWith("user:") ? "PERSON" : "GROUP";
     const targetId = to.replace(/^(channel|user):/, "");
 
     // Send text first if provided
     if (text?.trim()) {
-      const content = markdownToKMarkdown(text);
+      const content = await renderKookOutboundText({
+        cfg,
+        accountId,
+        channelType,
+        to: targetId,
+        markdown: text,
+      });
       await sendKookMessage({
         cfg,
+        accountId,
         channelType,
         to: targetId,
         content,
@@ -47,6 +61,7 @@ export const kookOutbound: ChannelOutboundAdapter = {
       try {
         const result = await sendMediaKook({
           cfg,
+          accountId,
           channelType,
           to: targetId,
           mediaUrl,
@@ -58,6 +73,7 @@ export const kookOutbound: ChannelOutboundAdapter = {
         const fallbackText = `📎 ${mediaUrl}`;
         const result = await sendKookMessage({
           cfg,
+          accountId,
           channelType,
           to: targetId,
           content: fallbackText,
@@ -69,6 +85,7 @@ export const kookOutbound: ChannelOutboundAdapter = {
 
     const result = await sendKookMessage({
       cfg,
+      accountId,
       channelType,
       to: targetId,
       content: text ?? "",
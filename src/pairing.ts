@@ -0,0 +1,169 @@
+import type { HistoryEntry, OpenClawConfig } from "openclaw/plugin-sdk";
+import type { KookConfig, KookMessageContext } from "./types.js";
+import type { KookAccountContext } from "./context.js";
+import type { KookDryRunSink } from "./reply-dispatcher.js";
+import { getKookRuntime } from "./runtime.js";
+import { resolveKookAllowlistMatch } from "./policy.js";
+import { sendKookMessage } from "./send.js";
+
+/**
+ * DM pairing (`dmPolicy: "pairing"`).
+ *
+ * A DM sender who is neither in `allowFrom` nor approved in the runtime's
+ * pairing store gets a pairing code instead of an answer, and their message
+ * is held instead of dispatched. The owner approves with `openclaw pairing
+ * approve kook <code>`; the runtime then adds them to the store and calls the
+ * plugin's `pairing.notifyApproval`. The sender's next message starts a turn
+ * that sees the held ones.
+ *
+ * A sender gets at most one code reply per cooldown, and messages inside
+ * the cooldown never reach the store. The store itself caps pending
+ * requests per account, so a flood of strangers can't fill it.
+ */
+
+const PAIRING_REPLY_COOLDOWN_MS = 10 * 60 * 1000;
+// Held messages are kept apart from chat history, whose DM limit defaults to 0
+const HELD_MESSAGE_LIMIT = 20;
+const HELD_SENDER_LIMIT = 100;
+
+/**
+ * Whether a DM sender may talk to the agent under the pairing policy:
+ * listed in `allowFrom`, or approved earlier. Always true for other policies.
+ */
+export async function isKookDmSenderPaired(params: {
+  cfg?: KookConfig;
+  accountId: string;
+  senderId: string;
+  senderName?: string;
+}): Promise<boolean> {
+  const { cfg, accountId, senderId, senderName } = params;
+  if ((cfg?.dmPolicy ?? "pairing") !== "pairing") return true;
+  if (resolveKookAllowlistMatch({ allowFrom: cfg?.allowFrom ?? [], senderId, senderName }).allowed) {
+    return true;
+  }
+  const approved = await getKookRuntime().channel.pairing.readAllowFromStore({
+    channel: "kook",
+    accountId,
+  });
+  return resolveKookAllowlistMatch({ allowFrom: approved, senderId }).allowed;
+}
+
+/**
+ * Keep an unpaired sender's message for their first turn after approval.
+ * Only the latest messages of the most recent senders are kept.
+ */
+export function holdKookDmMessage(context: KookAccountContext, ctx: KookMessageContext): void {
+  const { heldMessages } = context.caches;
+  const held = heldMessages.get(ctx.senderId) ?? [];
+  heldMessages.delete(ctx.senderId);
+  held.push({
+    sender: ctx.senderId,
+    body: `${ctx.senderName ?? ctx.senderId}: ${ctx.content}`,
+    timestamp: Date.now(),
+    messageId: ctx.messageId,
+  });
+  heldMessages.set(ctx.senderId, held.slice(-HELD_MESSAGE_LIMIT));
+  if (heldMessages.size > HELD_SENDER_LIMIT) {
+    const oldest = heldMessages.keys().next().value;
+    if (oldest !== undefined) heldMessages.delete(oldest);
+  }
+}
+
+/**
+ * The messages held for a sender, oldest first. They are handed out once.
+ */
+export function takeKookHeldDmMessages(context: KookAccountContext, senderId: string): HistoryEntry[] {
+  const held = context.caches.heldMessages.get(senderId) ?? [];
+  context.caches.heldMessages.delete(senderId);
+  return held;
+}
+
+/**
+ * The pending history for a sender's first turn after approval: the recent
+ * chat history (up to `historyLimit`) followed by the held messages, with a
+ * limit that fits both. Without held messages the history is used as is.
+ */
+export function mergeKookHeldDmMessages(params: {
+  chatHistories?: Map<string, HistoryEntry[]>;
+  historyKey: string;
+  historyLimit: number;
+  heldMessages?: HistoryEntry[];
+}): { historyMap?: Map<string, HistoryEntry[]>; limit: number } {
+  const { chatHistories, historyKey, historyLimit, heldMessages } = params;
+  if (!heldMessages?.length) return { historyMap: chatHistories, limit: historyLimit };
+  const recent = historyLimit > 0 ? (chatHistories?.get(historyKey) ?? []).slice(-historyLimit) : [];
+  return {
+    historyMap: new Map([[historyKey, [...recent, ...heldMessages]]]),
+    limit: recent.length + heldMessages.length,
+  };
+}
+
+/**
+ * Answer an unpaired DM sender with their pairing code, unless they got
+ * one within the cooldown.
+ */
+export async function replyWithKookPairingCode(params: {
+  cfg: OpenClawConfig;
+  context: KookAccountContext;
+  ctx: KookMessageContext;
+  log: (...args: unknown[]) => void;
+  dryRun?: KookDryRunSink;
+}): Promise<void> {
+  const { cfg, context, ctx, log, dryRun } = params;
+  const { pairingReplies } = context.caches;
+  const now = Date.now();
+
+  // Forget cooldowns that have run out; the map is oldest first
+  for (const [userId, sentAt] of pairingReplies) {
+    if (now - sentAt < PAIRING_REPLY_COOLDOWN_MS) break;
+    pairingReplies.delete(userId);
+  }
+
+  if (pairingReplies.has(ctx.senderId)) {
+    log(`kook: ${ctx.senderId} is waiting for pairing approval, message held`);
+    return;
+  }
+  pairingReplies.set(ctx.senderId, now);
+
+  if (dryRun) {
+    dryRun({
+      kind: "pairing",
+      chatId: ctx.senderId,
+      channelType: "PERSON",
+      content: "(pairing code reply)",
+    });
+    return;
+  }
+
+  const pairing = getKookRuntime().channel.pairing;
+  try {
+    const { code, created } = await pairing.upsertPairingRequest({
+      channel: "kook",
+      id: ctx.senderId,
+      accountId: context.accountId,
+      meta: { name: ctx.senderName },
+    });
+    if (!code) {
+      log(`kook: too many pending pairing requests, not answering ${ctx.senderId}`);
+      return;
+    }
+
+    log(`kook: ${created ? "new" : "repeated"} pairing request from ${ctx.senderId}, message held`);
+
+    const idLine = ctx.senderName
+      ? `Your KOOK user ID: ${ctx.senderId} (${ctx.senderName})`
+      : `Your KOOK user ID: ${ctx.senderId}`;
+    await sendKookMessage({
+      cfg,
+      accountId: context.accountId,
+      channelType: "PERSON",
+      to: ctx.senderId,
+      content: pairing.buildPairingReply({ channel: "kook", idLine, code }),
+      type: 9,
+    });
+  } catch (err) {
+    // Let the next message try again instead of waiting out the cooldown
+    pairingReplies.delete(ctx.senderId);
+    throw err;
+  }
+}
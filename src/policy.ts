@@ -1,5 +1,14 @@
-import type { ChannelGroupContext, GroupToolPolicyConfig } from "openclaw/plugin-sdk";
-import type { KookConfig, KookGroupConfig } from "./types.js";
+import type { ChannelGroupContext, GroupToolPolicyConfig, OpenClawConfig } from "openclaw/plugin-sdk";
+import { DEFAULT_GROUP_HISTORY_LIMIT } from "openclaw/plugin-sdk";
+import type {
+  KookConfig,
+  KookDmConfig,
+  KookGroupConfig,
+  KookMentionPolicy,
+  KookMessageContext,
+} from "./types.js";
+import { resolveKookAccount, resolveKookAccountConfig } from "./accounts.js";
+import { getKookAccountContext } from "./context.js";
 
 export type KookAllowlistMatch = {
   allowed: boolean;
@@ -34,31 +43,82 @@ export function resolveKookAllowlistMatch(params: {
   return { allowed: false };
 }
 
+function findConfigEntry<T>(entries: Record<string, T | undefined> | undefined, id?: string | null): T | undefined {
+  const key = id?.trim();
+  if (!entries || !key) return undefined;
+
+  const direct = entries[key];
+  if (direct) return direct;
+
+  const lowered = key.toLowerCase();
+  const matchKey = Object.keys(entries).find((entry) => entry.toLowerCase() === lowered);
+  return matchKey ? entries[matchKey] : undefined;
+}
+
+/**
+ * Settings for a guild (`groupId`), with the entry for `channelId` under
+ * its `channels` laid over it. Fields neither sets fall back to the top
+ * level at the call site.
+ */
 export function resolveKookGroupConfig(params: {
   cfg?: KookConfig;
   groupId?: string | null;
+  channelId?: string | null;
 }): KookGroupConfig | undefined {
-  const groups = params.cfg?.groups ?? {};
-  const groupId = params.groupId?.trim();
-  if (!groupId) return undefined;
+  const groupConfig = findConfigEntry(params.cfg?.groups, params.groupId);
+  const channelConfig = params.channelId && params.channelId !== params.groupId
+    ? findConfigEntry(groupConfig?.channels, params.channelId)
+    : undefined;
+  if (!channelConfig) return groupConfig;
+  return { ...groupConfig, ...channelConfig };
+}
 
-  const direct = groups[groupId] as KookGroupConfig | undefined;
-  if (direct) return direct;
+/**
+ * Settings for DMs with one user (`dms.<userId>`).
+ */
+export function resolveKookDmConfig(params: {
+  cfg?: KookConfig;
+  senderId?: string | null;
+}): KookDmConfig | undefined {
+  return findConfigEntry(params.cfg?.dms, params.senderId);
+}
 
-  const lowered = groupId.toLowerCase();
-  const matchKey = Object.keys(groups).find((key) => key.toLowerCase() === lowered);
-  return matchKey ? (groups[matchKey] as KookGroupConfig | undefined) : undefined;
+/**
+ * How many earlier messages to fold into a turn: `historyLimit` for groups,
+ * `dmHistoryLimit` (off by default) for DMs.
+ */
+export function resolveKookHistoryLimit(params: {
+  cfg: OpenClawConfig;
+  kookCfg?: KookConfig;
+  isDirectMessage: boolean;
+}): number {
+  const { cfg, kookCfg } = params;
+  const limit = params.isDirectMessage
+    ? kookCfg?.dmHistoryLimit ?? 0
+    : kookCfg?.historyLimit ?? cfg.messages?.groupChat?.historyLimit ?? DEFAULT_GROUP_HISTORY_LIMIT;
+  return Math.max(0, limit);
 }
 
+/**
+ * Tool policy for a conversation. The host passes the channel as `groupId`
+ * (the guild as `groupSpace` when known), so the guild comes from there or
+ * from channels seen before.
+ */
 export function resolveKookGroupToolPolicy(
   params: ChannelGroupContext,
 ): GroupToolPolicyConfig | undefined {
-  const cfg = params.cfg.channels?.kook as KookConfig | undefined;
+  const cfg = resolveKookAccountConfig(params.cfg, params.accountId);
   if (!cfg) return undefined;
 
+  const channelId = params.groupId?.trim();
+  const accountId = resolveKookAccount({ cfg: params.cfg, accountId: params.accountId }).accountId;
+  const guildId = params.groupSpace?.trim()
+    || (channelId ? getKookAccountContext(accountId)?.caches.channelGuilds.get(channelId) : undefined);
+
   const groupConfig = resolveKookGroupConfig({
     cfg,
-    groupId: params.groupId,
+    groupId: guildId ?? channelId,
+    channelId,
   });
 
   return groupConfig?.tools;
@@ -76,6 +136,169 @@ export function isKookGroupAllowed(params: {
   return resolveKookAllowlistMatch(params).allowed;
 }
 
+/**
+ * Whether the bot may act on its own in a guild (or one of its channels),
+ * e.g. to welcome members: groups are not disabled, the guild or channel
+ * entry is not `enabled: false`, and with `groupPolicy: "allowlist"` the
+ * guild has an entry in `groups`.
+ */
+export function isKookGuildAllowed(params: {
+  cfg?: KookConfig;
+  groupId: string;
+  channelId?: string | null;
+}): boolean {
+  const { cfg, groupId } = params;
+  const groupPolicy = cfg?.groupPolicy ?? "open";
+  if (groupPolicy === "disabled") return false;
+  if (resolveKookGroupConfig(params)?.enabled === false) return false;
+  return groupPolicy === "open" || findConfigEntry(cfg?.groups, groupId) !== undefined;
+}
+
+/**
+ * Sender access check for anything that can start a turn: group allowlist
+ * (per-guild `allowFrom` over `groupAllowFrom`) or the DM allowlist.
+ */
+export function isKookSenderAllowed(params: {
+  cfg?: KookConfig;
+  ctx: KookMessageContext;
+}): boolean {
+  const { cfg, ctx } = params;
+
+  if (ctx.channelType === "GROUP") {
+    const groupConfig = resolveKookGroupConfig({
+      cfg,
+      groupId: ctx.guildId ?? ctx.channelId,
+      channelId: ctx.channelId,
+    });
+    return isKookGroupAllowed({
+      groupPolicy: cfg?.groupPolicy ?? "open",
+      allowFrom: groupConfig?.allowFrom ?? cfg?.groupAllowFrom ?? [],
+      senderId: ctx.senderId,
+      senderName: ctx.senderName,
+    });
+  }
+
+  const dmPolicy = cfg?.dmPolicy ?? "pairing";
+  if (dmPolicy !== "allowlist") return true;
+  return resolveKookAllowlistMatch({
+    allowFrom: cfg?.allowFrom ?? [],
+    senderId: ctx.senderId,
+  }).allowed;
+}
+
+/**
+ * Whether the bot answers in a conversation at all: `enabled: false` on the
+ * channel or guild entry, or on the sender's DM entry, turns it off.
+ */
+export function isKookConversationEnabled(params: {
+  cfg?: KookConfig;
+  ctx: KookMessageContext;
+}): boolean {
+  const { cfg, ctx } = params;
+  const entry = ctx.channelType === "GROUP"
+    ? resolveKookGroupConfig({ cfg, groupId: ctx.guildId ?? ctx.channelId, channelId: ctx.channelId })
+    : resolveKookDmConfig({ cfg, senderId: ctx.senderId });
+  return entry?.enabled !== false;
+}
+
+export function resolveKookReactionNotifications(params: {
+  cfg?: KookConfig;
+  groupId?: string | null;
+  channelId?: string | null;
+}): "off" | "own" | "all" {
+  const groupConfig = resolveKookGroupConfig(params);
+  return groupConfig?.reactionNotifications ?? params.cfg?.reactionNotifications ?? "own";
+}
+
+export function resolveKookMessageChangePolicy(params: {
+  cfg?: KookConfig;
+  groupId?: string | null;
+  channelId?: string | null;
+}): { onEdit: "ignore" | "update" | "rerun"; onDelete: "ignore" | "forget" | "retract" } {
+  const groupConfig = resolveKookGroupConfig(params);
+  return {
+    onEdit: groupConfig?.onEdit ?? params.cfg?.onEdit ?? "update",
+    onDelete: groupConfig?.onDelete ?? params.cfg?.onDelete ?? "forget",
+  };
+}
+
+/**
+ * Guild `tools` policy check for management actions (roles, ...), which all
+ * run through the `message` tool. A `channelId` entry's `tools` replaces
+ * the guild's. A `deny` entry naming the action
+ * ("role-grant") or its gate ("roles") blocks it. An `allow` list must name
+ * the action, its gate, `message` or `*`.
+ */
+export function isKookGroupActionAllowed(params: {
+  cfg?: KookConfig;
+  groupId?: string | null;
+  channelId?: string | null;
+  action: string;
+  gate: string;
+}): boolean {
+  const tools = resolveKookGroupConfig(params)?.tools;
+  if (!tools) return true;
+
+  const names = [params.action, params.gate];
+  if (tools.deny?.some((entry) => names.includes(entry))) return false;
+
+  const allow = tools.allow ?? [];
+  if (allow.length === 0) return true;
+  return allow.some((entry) => entry === "*" || entry === "message" || names.includes(entry));
+}
+
+/**
+ * Welcome settings for a guild: per-guild fields override top-level ones,
+ * and the entry for `channelId` overrides both.
+ */
+export function resolveKookWelcomeConfig(params: {
+  cfg?: KookConfig;
+  groupId?: string | null;
+  channelId?: string | null;
+}): { enabled: boolean; channelId?: string; prompt?: string } {
+  const groupConfig = resolveKookGroupConfig(params);
+  const merged = { ...params.cfg?.welcome, ...groupConfig?.welcome };
+  return {
+    enabled: merged.enabled === true,
+    channelId: merged.channelId?.trim() || undefined,
+    prompt: merged.prompt?.trim() || undefined,
+  };
+}
+
+/**
+ * Mention settings for a guild (top-level only for DMs): per-guild and
+ * per-channel fields override top-level ones.
+ */
+export function resolveKookMentionPolicy(params: {
+  cfg?: KookConfig;
+  groupId?: string | null;
+  channelId?: string | null;
+}): KookMentionPolicy {
+  const groupConfig = resolveKookGroupConfig(params);
+  const merged = { ...params.cfg?.mentions, ...groupConfig?.mentions };
+  return {
+    users: merged.users !== false,
+    roles: merged.roles === true,
+    channels: merged.channels !== false,
+    emoji: merged.emoji !== false,
+    everyone: merged.everyone === true,
+  };
+}
+
+/**
+ * Roles allowed to trigger moderation actions in a guild. The channel's or
+ * guild's list replaces the top-level one; an empty result means nobody may.
+ */
+export function resolveKookModeratorRoles(params: {
+  cfg?: KookConfig;
+  groupId?: string | null;
+  channelId?: string | null;
+}): string[] {
+  const groupConfig = resolveKookGroupConfig(params);
+  const roles = groupConfig?.moderatorRoles ?? params.cfg?.moderatorRoles ?? [];
+  return roles.map((entry) => String(entry).trim()).filter(Boolean);
+}
+
 export function resolveKookReplyPolicy(params: {
   isDirectMessage: boolean;
   globalConfig?: KookConfig;
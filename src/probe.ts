@@ -1,5 +1,6 @@
 import type { KookConfig, KookProbeResult } from "./types.js";
 import { createKookClient } from "./client.js";
+import { createKookTransport } from "./http.js";
 import { resolveKookToken } from "./accounts.js";
 
 export async function probeKook(cfg?: KookConfig): Promise<KookProbeResult> {
@@ -11,8 +12,13 @@ export async function probeKook(cfg?: KookConfig): Promise<KookProbeResult> {
     };
   }
 
+  // A proxied transport holds its own agents; close them once the probe is done
+  const transport = createKookTransport({ proxy: cfg?.proxy });
   try {
-    const client = createKookClient(token);
+    const client = createKookClient(token, {
+      baseUrl: cfg?.apiBaseUrl?.trim() || undefined,
+      fetch: transport.fetch,
+    });
     const me = await client.getMe();
 
     return {
@@ -25,5 +31,7 @@ export async function probeKook(cfg?: KookConfig): Promise<KookProbeResult> {
       ok: false,
       error: err instanceof Error ? err.message : String(err),
     };
+  } finally {
+    transport.close();
   }
 }
@@ -100,20 +100,3 @@ export class KookQuotaTracker {
     }
   }
 }
-
-// Singleton quota tracker
-let globalTracker: KookQuotaTracker | null = null;
-
-export function getQuotaTracker(opts?: {
-  warningThreshold?: number;
-  log?: (...args: unknown[]) => void;
-}): KookQuotaTracker {
-  if (!globalTracker) {
-    globalTracker = new KookQuotaTracker(opts);
-  }
-  return globalTracker;
-}
-
-export function resetQuotaTracker(): void {
-  globalTracker = null;
-}
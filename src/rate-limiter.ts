@@ -0,0 +1,214 @@
+/**
+ * Client-side limiter for KOOK's REST rate limits.
+ *
+ * KOOK reports limits per bucket in response headers:
+ *   X-Rate-Limit-Bucket     bucket name, e.g. "message/create"
+ *   X-Rate-Limit-Remaining  requests left in the current window
+ *   X-Rate-Limit-Reset      seconds until the window resets
+ *   X-Rate-Limit-Global     set on a 429 caused by the global limit
+ *
+ * Every request waits in one queue until its bucket has room, instead of
+ * being sent and bounced with a 429. The queue is ordered by priority, so
+ * when a bucket runs dry a final reply goes out before pending streaming
+ * edits, and typing reactions go last.
+ */
+
+export type KookRequestPriority = "final" | "default" | "stream" | "typing";
+
+const PRIORITY_RANK: Record<KookRequestPriority, number> = {
+  final: 0,
+  default: 1,
+  stream: 2,
+  typing: 3,
+};
+
+// Used when a 429 comes without a usable reset header
+const DEFAULT_RESET_MS = 1000;
+
+type BucketState = {
+  remaining: number;
+  resetAt: number;
+};
+
+type QueuedRequest = {
+  route: string;
+  rank: number;
+  seq: number;
+  start: () => void;
+  fail: (err: Error) => void;
+};
+
+function parseHeaderNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export class KookRateLimiter {
+  private buckets = new Map<string, BucketState>();
+  // Route path -> bucket name, learned from responses
+  private routeBuckets = new Map<string, string>();
+  private queue: QueuedRequest[] = [];
+  private globalResetAt = 0;
+  private inFlight = 0;
+  private seq = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private disposed = false;
+  private readonly maxConcurrent: number;
+
+  constructor(opts?: { maxConcurrent?: number }) {
+    this.maxConcurrent = Math.max(1, opts?.maxConcurrent ?? 8);
+  }
+
+  /**
+   * Run `task` once the bucket for `route` has room. Aborting `signal`
+   * while the request is still queued rejects with the abort reason.
+   */
+  async schedule<T>(
+    route: string,
+    priority: KookRequestPriority,
+    task: () => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    signal?.throwIfAborted();
+    if (this.disposed) throw new Error("KOOK rate limiter was disposed");
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.queue.indexOf(entry);
+        if (index < 0) return;
+        this.queue.splice(index, 1);
+        reject(signal!.reason);
+      };
+      const entry: QueuedRequest = {
+        route,
+        rank: PRIORITY_RANK[priority],
+        seq: this.seq++,
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+        fail: (err) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(err);
+        },
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      // Keep the queue sorted by rank, FIFO within a rank
+      const index = this.queue.findIndex((queued) => queued.rank > entry.rank);
+      if (index < 0) {
+        this.queue.push(entry);
+      } else {
+        this.queue.splice(index, 0, entry);
+      }
+      this.pump();
+    });
+
+    try {
+      return await task();
+    } finally {
+      this.inFlight--;
+      this.pump();
+    }
+  }
+
+  /**
+   * Stop the wake-up timer and reject every queued request. Requests already
+   * sent are left to finish; new ones are refused.
+   */
+  dispose(): void {
+    this.disposed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const queued = this.queue;
+    this.queue = [];
+    for (const entry of queued) {
+      entry.fail(new Error("KOOK rate limiter was disposed"));
+    }
+  }
+
+  /**
+   * Record the rate-limit headers of a response for `route`.
+   */
+  update(route: string, headers: Headers, status: number): void {
+    const bucket = headers.get("X-Rate-Limit-Bucket")?.trim();
+    if (bucket) this.routeBuckets.set(route, bucket);
+
+    const remaining = parseHeaderNumber(headers.get("X-Rate-Limit-Remaining"));
+    const resetSec = parseHeaderNumber(headers.get("X-Rate-Limit-Reset"));
+    const resetAt = Date.now() + (resetSec !== undefined ? resetSec * 1000 : DEFAULT_RESET_MS);
+
+    if (status === 429) {
+      if (headers.has("X-Rate-Limit-Global")) {
+        this.globalResetAt = Math.max(this.globalResetAt, resetAt);
+      }
+      this.buckets.set(this.bucketKey(route), { remaining: 0, resetAt });
+    } else if (remaining !== undefined) {
+      this.buckets.set(this.bucketKey(route), { remaining, resetAt });
+    }
+
+    this.pump();
+  }
+
+  /** Number of requests waiting for a bucket */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  private bucketKey(route: string): string {
+    return this.routeBuckets.get(route) ?? route;
+  }
+
+  /** Milliseconds until `route` may be sent (0 = now) */
+  private waitFor(route: string, now: number): number {
+    if (now < this.globalResetAt) return this.globalResetAt - now;
+    const state = this.buckets.get(this.bucketKey(route));
+    if (!state || now >= state.resetAt || state.remaining > 0) return 0;
+    return state.resetAt - now;
+  }
+
+  private reserve(route: string, now: number): void {
+    const key = this.bucketKey(route);
+    const state = this.buckets.get(key);
+    if (!state) return;
+    if (now >= state.resetAt) {
+      // Window is over; the next response tells us the new one
+      this.buckets.delete(key);
+      return;
+    }
+    state.remaining--;
+  }
+
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const now = Date.now();
+    let nextWakeMs = Infinity;
+
+    for (let i = 0; i < this.queue.length && this.inFlight < this.maxConcurrent; ) {
+      const entry = this.queue[i];
+      const waitMs = this.waitFor(entry.route, now);
+      if (waitMs > 0) {
+        // A lower-priority request for another bucket may still go
+        nextWakeMs = Math.min(nextWakeMs, waitMs);
+        i++;
+        continue;
+      }
+      this.queue.splice(i, 1);
+      this.reserve(entry.route, now);
+      this.inFlight++;
+      entry.start();
+    }
+
+    if (this.queue.length > 0 && nextWakeMs < Infinity) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.pump();
+      }, nextWakeMs);
+    }
+  }
+}
@@ -1,21 +1,18 @@
 import type { OpenClawConfig } from "openclaw/plugin-sdk";
-import type { KookConfig } from "./types.js";
-import { createKookClient } from "./client.js";
+import { resolveKookAccountContext } from "./context.js";
 
 /**
  * Add a reaction to a channel message.
  */
 export async function addReactionKook(params: {
   cfg: OpenClawConfig;
+  accountId?: string | null;
   messageId: string;
   emoji: string;
   channelType?: "GROUP" | "PERSON";
 }): Promise<void> {
-  const { cfg, messageId, emoji, channelType } = params;
-  const kookCfg = cfg.channels?.kook as KookConfig | undefined;
-  if (!kookCfg?.token) throw new Error("KOOK channel not configured");
-
-  const client = createKookClient(kookCfg);
+  const { cfg, accountId, messageId, emoji, channelType } = params;
+  const { client } = resolveKookAccountContext({ cfg, accountId });
   if (channelType === "PERSON") {
     await client.addDirectReaction(messageId, emoji);
   } else {
@@ -28,16 +25,14 @@ export async function addReactionKook(params: {
  */
 export async function removeReactionKook(params: {
   cfg: OpenClawConfig;
+  accountId?: string | null;
   messageId: string;
   emoji: string;
   userId?: string;
   channelType?: "GROUP" | "PERSON";
 }): Promise<void> {
-  const { cfg, messageId, emoji, userId, channelType } = params;
-  const kookCfg = cfg.channels?.kook as KookConfig | undefined;
-  if (!kookCfg?.token) throw new Error("KOOK channel not configured");
-
-  const client = createKookClient(kookCfg);
+  const { cfg, accountId, messageId, emoji, userId, channelType } = params;
+  const { client } = resolveKookAccountContext({ cfg, accountId });
   if (channelType === "PERSON") {
     await client.deleteDirectReaction(messageId, emoji, userId);
   } else {
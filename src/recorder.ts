@@ -0,0 +1,168 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { getKookRuntime } from "./runtime.js";
+import type { KookEventData, KookUser } from "./types.js";
+
+/**
+ * Gateway event recorder.
+ *
+ * Opt-in via `eventRecorder.enabled`. Every event the gateway dispatches is
+ * appended to a JSONL file so a broken mention or attachment can be replayed
+ * later with `replayKookEvents`. Recording is best-effort: a failed write is
+ * logged and never blocks message handling.
+ *
+ * Redaction always strips the bot token, profile image URLs and nonces.
+ * With `redactContent` the message text is masked as well, keeping only the
+ * KMarkdown mention tokens ((met)/(rol)/(chn)) that mention bugs depend on.
+ */
+
+export type KookRecordedEvent = {
+  recordedAt: number;
+  accountId: string;
+  event: KookEventData;
+};
+
+export type KookEventRecorderOptions = {
+  accountId: string;
+  /** JSONL file to append to (default: <stateDir>/kook/events-<accountId>.jsonl) */
+  filePath?: string;
+  /** Mask message text, keeping mention tokens */
+  redactContent?: boolean;
+  /** Bot token, removed wherever it shows up */
+  token?: string;
+  log?: (...args: unknown[]) => void;
+};
+
+const MENTION_TOKEN_PATTERN = /\((met|rol|chn)\)[^()]*?\(\1\)/g;
+const REDACTED = "[redacted]";
+
+export function resolveEventRecordingPath(accountId: string): string {
+  const stateDir = getKookRuntime().state.resolveStateDir();
+  const safeId = accountId.replace(/[^a-zA-Z0-9_-]/g, "_");
+  return path.join(stateDir, "kook", `events-${safeId}.jsonl`);
+}
+
+/**
+ * Replace every non-whitespace character outside mention tokens with "x",
+ * so lengths and line structure survive but the text does not.
+ */
+function maskText(text: string): string {
+  let result = "";
+  let last = 0;
+  for (const match of text.matchAll(MENTION_TOKEN_PATTERN)) {
+    result += text.slice(last, match.index).replace(/\S/g, "x");
+    result += match[0];
+    last = match.index + match[0].length;
+  }
+  return result + text.slice(last).replace(/\S/g, "x");
+}
+
+function redactUser(user: KookUser | undefined): KookUser | undefined {
+  if (!user) return user;
+  const { avatar: _avatar, vip_avatar: _vipAvatar, banner: _banner, mobile_verified: _mobile, ...rest } = user;
+  return rest;
+}
+
+export function redactKookEvent(
+  event: KookEventData,
+  opts?: { redactContent?: boolean; token?: string },
+): KookEventData {
+  const copy = structuredClone(event) as KookEventData & { verify_token?: string };
+  delete copy.verify_token;
+  copy.nonce = "";
+
+  if (copy.extra) {
+    copy.extra.author = redactUser(copy.extra.author);
+    if (copy.extra.quote) {
+      copy.extra.quote.author = redactUser(copy.extra.quote.author) as KookUser;
+    }
+  }
+
+  if (opts?.redactContent) {
+    copy.content = maskText(copy.content ?? "");
+    const kmarkdown = copy.extra?.kmarkdown;
+    if (kmarkdown?.raw_content) kmarkdown.raw_content = maskText(kmarkdown.raw_content);
+    if (copy.extra?.quote) copy.extra.quote.content = maskText(copy.extra.quote.content ?? "");
+  }
+
+  if (!opts?.token) return copy;
+  // The token should never appear in an event, but make sure it cannot leak
+  const serialized = JSON.stringify(copy).split(opts.token).join(REDACTED);
+  return JSON.parse(serialized) as KookEventData;
+}
+
+export class KookEventRecorder {
+  readonly filePath: string;
+  private writing: Promise<void> = Promise.resolve();
+  private dirReady = false;
+  private failed = false;
+
+  constructor(private options: KookEventRecorderOptions) {
+    this.filePath = options.filePath ?? resolveEventRecordingPath(options.accountId);
+  }
+
+  record(event: KookEventData): void {
+    let line: string;
+    try {
+      const entry: KookRecordedEvent = {
+        recordedAt: Date.now(),
+        accountId: this.options.accountId,
+        event: redactKookEvent(event, {
+          redactContent: this.options.redactContent,
+          token: this.options.token,
+        }),
+      };
+      line = `${JSON.stringify(entry)}\n`;
+    } catch (err) {
+      this.options.log?.(`kook: failed to serialize event for recording: ${String(err)}`);
+      return;
+    }
+    this.writing = this.writing.then(() => this.append(line));
+  }
+
+  /** Resolve once every recorded event has been written */
+  flush(): Promise<void> {
+    return this.writing;
+  }
+
+  private async append(line: string): Promise<void> {
+    try {
+      if (!this.dirReady) {
+        await mkdir(path.dirname(this.filePath), { recursive: true });
+        this.dirReady = true;
+      }
+      await appendFile(this.filePath, line, "utf-8");
+      this.failed = false;
+    } catch (err) {
+      // Log once per failure streak, not once per event
+      if (!this.failed) {
+        this.options.log?.(`kook: failed to record event to ${this.filePath}: ${String(err)}`);
+      }
+      this.failed = true;
+    }
+  }
+}
+
+/**
+ * Read a recording. Blank and malformed lines are skipped.
+ */
+export async function readKookEventRecording(filePath: string): Promise<KookRecordedEvent[]> {
+  const raw = await readFile(filePath, "utf-8");
+  const entries: KookRecordedEvent[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const parsed = JSON.parse(line) as Partial<KookRecordedEvent>;
+      if (parsed.event && typeof parsed.event === "object") {
+        entries.push({
+          recordedAt: parsed.recordedAt ?? 0,
+          accountId: parsed.accountId ?? "",
+          event: parsed.event,
+        });
+      }
+    } catch {
+      // Truncated last line from a crash, or hand-edited file
+    }
+  }
+  return entries;
+}
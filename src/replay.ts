@@ -0,0 +1,74 @@
+import type { OpenClawConfig, RuntimeEnv, HistoryEntry } from "openclaw/plugin-sdk";
+import { handleKookMessage } from "./bot.js";
+import { readKookEventRecording } from "./recorder.js";
+import type { KookDryRunReply } from "./reply-dispatcher.js";
+
+/**
+ * Replay a recording made by the event recorder.
+ *
+ * Events go through `handleKookMessage` one at a time, in recorded order,
+ * sharing one group history map like a live monitor would. The agent runs
+ * in a `:replay` side session, and nothing it does changes KOOK: replies
+ * and `message` tool actions that write (send, edit, roles, channels,
+ * moderation, ...) are collected as dry-run replies instead, and no typing
+ * reactions are added.
+ *
+ * Reads still hit the KOOK API: media downloads (media bugs are one of the
+ * reasons to replay), lookups the agent asks for (`read`, `member-info`,
+ * ...), and the bot role and member lookups behind mention handling.
+ */
+
+export type KookReplayResult = {
+  msgId: string;
+  authorId: string;
+  channelType: string;
+  targetId: string;
+  replies: KookDryRunReply[];
+};
+
+export async function replayKookEvents(params: {
+  cfg: OpenClawConfig;
+  /** Account to replay as; defaults to the account recorded with each event */
+  accountId?: string | null;
+  filePath: string;
+  /** Override the bot user id, e.g. when the capture came from another bot */
+  botId?: string;
+  runtime?: RuntimeEnv;
+}): Promise<KookReplayResult[]> {
+  const { cfg, filePath, botId, runtime } = params;
+  const log = runtime?.log ?? console.log;
+
+  const entries = await readKookEventRecording(filePath);
+  log(`kook: replaying ${entries.length} recorded event(s) from ${filePath}`);
+
+  const chatHistories = new Map<string, HistoryEntry[]>();
+  const results: KookReplayResult[] = [];
+
+  for (const entry of entries) {
+    const { event } = entry;
+    const replies: KookDryRunReply[] = [];
+
+    await handleKookMessage({
+      cfg,
+      accountId: params.accountId ?? (entry.accountId || undefined),
+      event,
+      botId,
+      runtime,
+      chatHistories,
+      dryRun: (reply) => {
+        replies.push(reply);
+        log(`kook: [replay] ${reply.kind} reply to ${reply.chatId}: ${reply.content.slice(0, 200)}`);
+      },
+    });
+
+    results.push({
+      msgId: event.msg_id,
+      authorId: event.author_id,
+      channelType: event.channel_type,
+      targetId: event.target_id,
+      replies,
+    });
+  }
+
+  return results;
+}
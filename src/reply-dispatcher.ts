@@ -8,9 +8,11 @@ import {
 } from "openclaw/plugin-sdk";
 import { getKookRuntime } from "./runtime.js";
 import { sendKookMessage, updateKookMessage } from "./send.js";
+import type { KookRequestPriority } from "./rate-limiter.js";
 import type { KookConfig } from "./types.js";
-import { markdownToKMarkdown } from "./kmarkdown.js";
-import { getQuotaTracker } from "./quota.js";
+import { resolveKookAccount } from "./accounts.js";
+import { resolveKookAccountContext, recordTurnReply } from "./context.js";
+import { renderKookOutboundText } from "./mentions.js";
 import {
   addTypingIndicator,
   removeTypingIndicator,
@@ -22,41 +24,86 @@ const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve,
 /**
  * Resolve whether block streaming is enabled from config.
  */
-function resolveBlockStreamingEnabled(cfg: OpenClawConfig): boolean {
-  const kookCfg = cfg.channels?.kook as KookConfig | undefined;
+function resolveBlockStreamingEnabled(kookCfg?: KookConfig): boolean {
   return kookCfg?.blockStreaming !== false; // default true
 }
 
 /**
  * Resolve block streaming mode: "edit" (default) or "append".
  */
-function resolveBlockStreamingMode(cfg: OpenClawConfig): "edit" | "append" {
-  const kookCfg = cfg.channels?.kook as KookConfig | undefined;
+function resolveBlockStreamingMode(kookCfg?: KookConfig): "edit" | "append" {
   return kookCfg?.blockStreamingMode ?? "edit";
 }
 
+export type KookDryRunReply = {
+  kind: string;
+  chatId: string;
+  channelType: "GROUP" | "PERSON";
+  /** Reply text after KMarkdown conversion, as it would have been sent */
+  content: string;
+};
+
+/** Receives replies instead of KOOK when replaying recorded events */
+export type KookDryRunSink = (reply: KookDryRunReply) => void;
+
+// Replay session key → its sink, so `message` tool actions the agent takes
+// during a replay are captured instead of run
+const dryRunSessions = new Map<string, KookDryRunSink>();
+
+/**
+ * Route tool actions of a replay session to `sink` until the returned
+ * function is called.
+ */
+export function registerKookDryRunSession(sessionKey: string, sink: KookDryRunSink): () => void {
+  dryRunSessions.set(sessionKey, sink);
+  return () => {
+    if (dryRunSessions.get(sessionKey) === sink) dryRunSessions.delete(sessionKey);
+  };
+}
+
+export function getKookDryRunSink(sessionKey?: string | null): KookDryRunSink | undefined {
+  return sessionKey ? dryRunSessions.get(sessionKey) : undefined;
+}
+
 export type CreateKookReplyDispatcherParams = {
   cfg: OpenClawConfig;
+  accountId?: string | null;
   agentId: string;
   runtime: RuntimeEnv;
   chatId: string;                       // channel ID or user ID (for DM target)
   channelType: "GROUP" | "PERSON";
   replyToMessageId?: string;
+  dryRun?: KookDryRunSink;
 };
 
 export function createKookReplyDispatcher(params: CreateKookReplyDispatcherParams) {
   const core = getKookRuntime();
-  const { cfg, agentId, chatId, channelType, replyToMessageId } = params;
+  const { cfg, accountId, agentId, chatId, channelType, replyToMessageId, dryRun } = params;
 
   const prefixContext = createReplyPrefixContext({
     cfg,
     agentId,
   });
 
-  const kookCfg = cfg.channels?.kook as KookConfig | undefined;
-  const blockStreamingEnabled = resolveBlockStreamingEnabled(cfg);
-  const blockStreamingMode = resolveBlockStreamingMode(cfg);
-  const quotaTracker = getQuotaTracker();
+  const kookCfg = resolveKookAccount({ cfg, accountId }).config;
+  const context = resolveKookAccountContext({ cfg, accountId });
+
+  // Link replies to the trigger so they can be retracted if it is deleted
+  const trackReply = (msgId: string) => {
+    if (replyToMessageId) recordTurnReply(context, replyToMessageId, msgId);
+  };
+  // Markdown → KMarkdown: disallowed mention tokens escaped, @name / #channel resolved
+  const convert = (text: string) =>
+    renderKookOutboundText({
+      cfg,
+      accountId,
+      channelType,
+      to: chatId,
+      markdown: text,
+      log: params.runtime.log,
+    });
+  const blockStreamingEnabled = resolveBlockStreamingEnabled(kookCfg);
+  const blockStreamingMode = resolveBlockStreamingMode(kookCfg);
 
   // ---- Block Streaming State ----
   let currentStreamMsgId: string | null = null;
@@ -70,9 +117,10 @@ export function createKookReplyDispatcher(params: CreateKookReplyDispatcherParam
 
   const typingCallbacks = createTypingCallbacks({
     start: async () => {
-      if (!replyToMessageId) return;
+      if (!replyToMessageId || dryRun) return;
       typingState = await addTypingIndicator({
         cfg,
+        accountId,
         messageId: replyToMessageId,
         channelType,
       });
@@ -119,11 +167,16 @@ export function createKookReplyDispatcher(params: CreateKookReplyDispatcherParam
         const text = payload.text ?? "";
         if (!text.trim()) return;
 
+        if (dryRun) {
+          dryRun({ kind: info.kind, chatId, channelType, content: await convert(text) });
+          return;
+        }
+
         const isBlock = info.kind === "block";
 
         if (isBlock && blockStreamingEnabled && blockStreamingMode === "edit") {
           // ---- Block Streaming via Edit ----
-          const converted = markdownToKMarkdown(text);
+          const converted = await convert(text);
           accumulatedText += (accumulatedText ? "\n\n" : "") + converted;
 
           if (!currentStreamMsgId) {
@@ -131,14 +184,17 @@ export function createKookReplyDispatcher(params: CreateKookReplyDispatcherParam
             try {
               const result = await sendKookMessage({
                 cfg,
+                accountId,
                 channelType,
                 to: chatId,
                 content: accumulatedText,
                 type: 9,
                 quote: replyToMessageId,
                 replyMsgId: replyToMessageId, // quota discount
+                priority: "stream",
               });
               currentStreamMsgId = result.msgId;
+              trackReply(result.msgId);
               params.runtime.log?.(`kook: block streaming started, msgId=${currentStreamMsgId}`);
             } catch (err) {
               params.runtime.error?.(`kook: failed to create streaming message: ${err}`);
@@ -160,21 +216,27 @@ export function createKookReplyDispatcher(params: CreateKookReplyDispatcherParam
 
               const result = await sendKookMessage({
                 cfg,
+                accountId,
                 channelType,
                 to: chatId,
                 content: accumulatedText,
                 type: 9,
+                priority: "stream",
               });
               currentStreamMsgId = result.msgId;
+              trackReply(result.msgId);
               params.runtime.log?.("kook: block streaming overflow, new message created");
             } else {
               try {
                 await updateKookMessage({
                   cfg,
+                  accountId,
                   channelType,
                   msgId: currentStreamMsgId,
+                  to: chatId,
                   content: accumulatedText,
                   replyMsgId: replyToMessageId, // quota discount
+                  priority: "stream",
                 });
                 lastEditTime = Date.now();
               } catch (err) {
@@ -184,7 +246,7 @@ export function createKookReplyDispatcher(params: CreateKookReplyDispatcherParam
           }
         } else {
           // ---- Final reply or non-streaming / append mode ----
-          const converted = markdownToKMarkdown(text);
+          const converted = await convert(text);
 
           if (currentStreamMsgId && blockStreamingEnabled && blockStreamingMode === "edit") {
             // Finalize streaming message with final content
@@ -192,22 +254,25 @@ export function createKookReplyDispatcher(params: CreateKookReplyDispatcherParam
             try {
               await updateKookMessage({
                 cfg,
+                accountId,
                 channelType,
                 msgId: currentStreamMsgId,
+                to: chatId,
                 content: finalText,
                 replyMsgId: replyToMessageId, // quota discount
+                priority: "final",
               });
               params.runtime.log?.("kook: block streaming finalized");
             } catch (err) {
               params.runtime.error?.(`kook: failed to finalize streaming message: ${err}`);
               // Fallback: send as new message
-              await sendFallback(converted);
+              await sendFallback(converted, "final");
             }
             currentStreamMsgId = null;
             accumulatedText = "";
           } else {
             // Normal send (chunked if needed)
-            await sendFallback(converted);
+            await sendFallback(converted, info.kind === "final" ? "final" : "default");
           }
         }
       },
@@ -218,19 +283,22 @@ export function createKookReplyDispatcher(params: CreateKookReplyDispatcherParam
       onIdle: typingCallbacks.onIdle,
     });
 
-  async function sendFallback(converted: string): Promise<void> {
+  async function sendFallback(converted: string, priority: KookRequestPriority): Promise<void> {
     const chunks = core.channel.text.chunkTextWithMode(converted, textChunkLimit, chunkMode);
     for (const chunk of chunks) {
       if (!chunk.trim()) continue;
-      await sendKookMessage({
+      const result = await sendKookMessage({
         cfg,
+        accountId,
         channelType,
         to: chatId,
         content: chunk,
         type: 9,
         quote: replyToMessageId,
         replyMsgId: replyToMessageId, // quota discount
+        priority,
       });
+      trackReply(result.msgId);
     }
   }
 
@@ -1,8 +1,35 @@
 import type { OpenClawConfig } from "openclaw/plugin-sdk";
-import type { KookConfig, KookSendResult } from "./types.js";
-import { createKookClient } from "./client.js";
-import { getQuotaTracker } from "./quota.js";
+import type { KookSendResult } from "./types.js";
+import { resolveKookAccountContext, rememberSentMessage } from "./context.js";
 import { serializeCards, type KookCard } from "./card-builder.js";
+import type { KookRequestPriority } from "./rate-limiter.js";
+import {
+  parseKookCardContent,
+  sanitizeCardMentions,
+  sanitizeKMarkdownMentions,
+} from "./kmarkdown.js";
+import { resolveKookTargetMentionPolicy } from "./mentions.js";
+
+/**
+ * Last line of defence for mentions, whatever produced the content
+ * (captions, notices, cards, edits): escape the tokens the target's policy
+ * forbids in KMarkdown, or in every kmarkdown element of a card.
+ */
+async function sanitizeOutgoingMentions(params: {
+  cfg: OpenClawConfig;
+  accountId?: string | null;
+  channelType: "GROUP" | "PERSON";
+  to?: string;
+  content: string;
+  type: number;
+}): Promise<string> {
+  const { cfg, accountId, channelType, to, content, type } = params;
+  if (type !== 9 && type !== 10) return content;
+  const policy = await resolveKookTargetMentionPolicy({ cfg, accountId, channelType, to });
+  return type === 10
+    ? sanitizeCardMentions(content, policy)
+    : sanitizeKMarkdownMentions(content, policy);
+}
 
 /**
  * Send a message to a KOOK channel or direct message.
@@ -10,6 +37,7 @@ import { serializeCards, type KookCard } from "./card-builder.js";
  */
 export async function sendKookMessage(params: {
   cfg: OpenClawConfig;
+  accountId?: string | null;
   channelType: "GROUP" | "PERSON";
   to: string;
   content: string;
@@ -17,13 +45,19 @@ export async function sendKookMessage(params: {
   quote?: string;       // quote message ID
   nonce?: string;
   replyMsgId?: string;  // reply_msg_id for quota discount
+  priority?: KookRequestPriority;
 }): Promise<KookSendResult> {
-  const { cfg, channelType, to, content, type, quote, nonce, replyMsgId } = params;
-  const kookCfg = cfg.channels?.kook as KookConfig | undefined;
-  if (!kookCfg?.token) throw new Error("KOOK channel not configured");
-
-  const client = createKookClient(kookCfg);
-  const tracker = getQuotaTracker();
+  const { cfg, accountId, channelType, to, type, quote, nonce, replyMsgId, priority } = params;
+  const content = await sanitizeOutgoingMentions({
+    cfg,
+    accountId,
+    channelType,
+    to,
+    content: params.content,
+    type: type ?? 9,
+  });
+  const context = resolveKookAccountContext({ cfg, accountId });
+  const { client, quotaTracker: tracker } = context;
 
   let result: KookSendResult;
 
@@ -33,6 +67,7 @@ export async function sendKookMessage(params: {
       quote,
       nonce,
       replyMsgId,
+      priority,
     });
   } else {
     result = await client.createMessage(to, content, {
@@ -40,35 +75,47 @@ export async function sendKookMessage(params: {
       quote,
       nonce,
       replyMsgId,
+      priority,
     });
   }
 
   tracker.record("create");
+  rememberSentMessage(context, result.msgId, { targetId: to, channelType });
   return result;
 }
 
 /**
- * Update/edit an existing message.
+ * Update/edit an existing message. `content` is KMarkdown, or card JSON when
+ * editing a card message.
  */
 export async function updateKookMessage(params: {
   cfg: OpenClawConfig;
+  accountId?: string | null;
   channelType: "GROUP" | "PERSON";
   msgId: string;
   content: string;
+  /** Channel ID, or the user ID for DMs; looked up for messages the bot sent */
+  to?: string;
   quote?: string;
   replyMsgId?: string;
+  priority?: KookRequestPriority;
 }): Promise<void> {
-  const { cfg, channelType, msgId, content, quote, replyMsgId } = params;
-  const kookCfg = cfg.channels?.kook as KookConfig | undefined;
-  if (!kookCfg?.token) throw new Error("KOOK channel not configured");
-
-  const client = createKookClient(kookCfg);
-  const tracker = getQuotaTracker();
+  const { cfg, accountId, channelType, msgId, quote, replyMsgId, priority } = params;
+  const context = resolveKookAccountContext({ cfg, accountId });
+  const { client, quotaTracker: tracker } = context;
+  const content = await sanitizeOutgoingMentions({
+    cfg,
+    accountId,
+    channelType,
+    to: params.to ?? context.caches.sentMessages.get(msgId)?.targetId,
+    content: params.content,
+    type: parseKookCardContent(params.content) ? 10 : 9,
+  });
 
   if (channelType === "PERSON") {
-    await client.updateDirectMessage(msgId, content, { quote, replyMsgId });
+    await client.updateDirectMessage(msgId, content, { quote, replyMsgId, priority });
   } else {
-    await client.updateMessage(msgId, content, { quote, replyMsgId });
+    await client.updateMessage(msgId, content, { quote, replyMsgId, priority });
   }
 
   tracker.record("update");
@@ -79,14 +126,12 @@ export async function updateKookMessage(params: {
  */
 export async function deleteKookMessage(params: {
   cfg: OpenClawConfig;
+  accountId?: string | null;
   channelType: "GROUP" | "PERSON";
   msgId: string;
 }): Promise<void> {
-  const { cfg, channelType, msgId } = params;
-  const kookCfg = cfg.channels?.kook as KookConfig | undefined;
-  if (!kookCfg?.token) throw new Error("KOOK channel not configured");
-
-  const client = createKookClient(kookCfg);
+  const { cfg, accountId, channelType, msgId } = params;
+  const { client } = resolveKookAccountContext({ cfg, accountId });
 
   if (channelType === "PERSON") {
     await client.deleteDirectMessage(msgId);
@@ -100,10 +145,12 @@ export async function deleteKookMessage(params: {
  */
 export async function sendKookCardMessage(params: {
   cfg: OpenClawConfig;
+  accountId?: string | null;
   channelType: "GROUP" | "PERSON";
   to: string;
   cards: KookCard[];
   quote?: string;
+  priority?: KookRequestPriority;
 }): Promise<KookSendResult> {
   const content = serializeCards(params.cards);
   return sendKookMessage({
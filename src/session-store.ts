@@ -0,0 +1,100 @@
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { getKookRuntime } from "./runtime.js";
+
+/**
+ * Persisted gateway session state, one file per account.
+ *
+ * Lets a restarted process resume the previous WebSocket session instead of
+ * opening a new one and losing the events sent in between. The server decides
+ * whether the session is still resumable; a refused resume falls back to a
+ * fresh session, so a stale file is harmless.
+ */
+
+export type KookGatewaySession = {
+  sessionId: string;
+  lastSn: number;
+  updatedAt: number;
+};
+
+// Sessions older than this are not worth a resume attempt
+const MAX_SESSION_AGE_MS = 10 * 60 * 1000;
+const WRITE_DEBOUNCE_MS = 1000;
+
+function resolveSessionFilePath(accountId: string): string {
+  const stateDir = getKookRuntime().state.resolveStateDir();
+  const safeId = accountId.replace(/[^a-zA-Z0-9_-]/g, "_");
+  return path.join(stateDir, "kook", `gateway-session-${safeId}.json`);
+}
+
+export class KookSessionStore {
+  private readonly filePath: string;
+  private pending: KookGatewaySession | null | undefined;
+  private writeTimer: ReturnType<typeof setTimeout> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    accountId: string,
+    private log: (...args: unknown[]) => void = console.log,
+  ) {
+    this.filePath = resolveSessionFilePath(accountId);
+  }
+
+  async load(): Promise<KookGatewaySession | null> {
+    try {
+      const raw = await readFile(this.filePath, "utf-8");
+      const parsed = JSON.parse(raw) as Partial<KookGatewaySession>;
+      if (typeof parsed.sessionId !== "string" || typeof parsed.lastSn !== "number") {
+        return null;
+      }
+      const updatedAt = typeof parsed.updatedAt === "number" ? parsed.updatedAt : 0;
+      if (Date.now() - updatedAt > MAX_SESSION_AGE_MS) {
+        this.log(`kook: persisted gateway session is stale (${new Date(updatedAt).toISOString()}), ignoring`);
+        return null;
+      }
+      return { sessionId: parsed.sessionId, lastSn: parsed.lastSn, updatedAt };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Record the latest session state. Writes are debounced; `null` clears the file.
+   */
+  update(session: { sessionId: string; lastSn: number } | null): void {
+    this.pending = session ? { ...session, updatedAt: Date.now() } : null;
+    if (this.writeTimer) return;
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = null;
+      void this.flush();
+    }, WRITE_DEBOUNCE_MS);
+  }
+
+  async flush(): Promise<void> {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+    }
+    if (this.pending === undefined) return this.writing;
+
+    const next = this.pending;
+    this.pending = undefined;
+    this.writing = this.writing.then(() => this.write(next));
+    return this.writing;
+  }
+
+  private async write(session: KookGatewaySession | null): Promise<void> {
+    try {
+      if (!session) {
+        await rm(this.filePath, { force: true });
+        return;
+      }
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(session), "utf-8");
+      await rename(tmpPath, this.filePath);
+    } catch (err) {
+      this.log(`kook: failed to persist gateway session: ${String(err)}`);
+    }
+  }
+}
@@ -0,0 +1,637 @@
+import type { OpenClawConfig, RuntimeEnv, HistoryEntry } from "openclaw/plugin-sdk";
+import type {
+  KookButtonClickBody,
+  KookEventData,
+  KookGuildMemberBody,
+  KookMessageContext,
+  KookMessageDeletedBody,
+  KookMessageUpdatedBody,
+  KookReactionBody,
+  KookSelfGuildBody,
+} from "./types.js";
+import { resolveKookAccount } from "./accounts.js";
+import {
+  resolveKookAccountContext,
+  refreshBotGuildRole,
+  type KookAccountContext,
+  type KookTurnRecord,
+} from "./context.js";
+import { getKookRuntime } from "./runtime.js";
+import {
+  isKookGuildAllowed,
+  isKookConversationEnabled,
+  isKookSenderAllowed,
+  resolveKookHistoryLimit,
+  resolveKookMessageChangePolicy,
+  resolveKookReactionNotifications,
+  resolveKookWelcomeConfig,
+} from "./policy.js";
+import { dispatchKookInboundTurn, resolveKookHistoryKey } from "./inbound.js";
+import { isKookDmSenderPaired } from "./pairing.js";
+import { deleteKookMessage } from "./send.js";
+import { normalizeKookInboundMentions } from "./mentions.js";
+import { TYPING_EMOJI } from "./typing.js";
+import type { KookDryRunSink } from "./reply-dispatcher.js";
+
+/**
+ * KOOK system events (`type: 255`).
+ *
+ * The event kind is in `extra.type` and its payload in `extra.body`.
+ * Kinds without a handler are ignored.
+ */
+
+export type KookSystemEventParams = {
+  cfg: OpenClawConfig;
+  accountId: string;
+  event: KookEventData;
+  runtime?: RuntimeEnv;
+  chatHistories?: Map<string, HistoryEntry[]>;
+  dryRun?: KookDryRunSink;
+  /** Run a message event through the normal message path (used to re-run edited triggers) */
+  rerunMessage?: (event: KookEventData) => Promise<void>;
+};
+
+export async function handleKookSystemEvent(params: KookSystemEventParams): Promise<void> {
+  const kind = params.event.extra?.type;
+  switch (kind) {
+    case "message_btn_click":
+      await handleButtonClick(params);
+      return;
+    case "added_reaction":
+    case "private_added_reaction":
+      await handleReaction(params, "added");
+      return;
+    case "deleted_reaction":
+    case "private_deleted_reaction":
+      await handleReaction(params, "removed");
+      return;
+    case "updated_message":
+    case "updated_private_message":
+      await handleMessageUpdated(params);
+      return;
+    case "deleted_message":
+    case "deleted_private_message":
+      await handleMessageDeleted(params);
+      return;
+    case "joined_guild":
+      await handleMemberJoined(params);
+      return;
+    case "exited_guild":
+      await handleMemberNotice(params, "left the server");
+      return;
+    case "joined_channel":
+      await handleMemberNotice(params, "joined a voice channel");
+      return;
+    case "self_joined_guild":
+      await handleSelfGuildChange(params, "joined");
+      return;
+    case "self_exited_guild":
+      await handleSelfGuildChange(params, "exited");
+      return;
+    default:
+      return;
+  }
+}
+
+/**
+ * A `return-val` card button was clicked. Start a turn as if the clicker had
+ * written to the bot, replying under the card.
+ *
+ * KOOK delivers clicks as PERSON events addressed to the bot; where the card
+ * actually lives is in `body.channel_type` / `body.target_id`.
+ */
+async function handleButtonClick(params: KookSystemEventParams): Promise<void> {
+  const { cfg, accountId, event, runtime } = params;
+  const log = runtime?.log ?? console.log;
+  const body = event.extra?.body as KookButtonClickBody | undefined;
+  if (!body?.msg_id || !body.user_id) return;
+
+  const kookCfg = resolveKookAccount({ cfg, accountId }).config;
+  const channelType = body.channel_type ?? (body.guild_id ? "GROUP" : "PERSON");
+  const senderName = body.user_info?.nickname || body.user_info?.username || undefined;
+  const value = body.value ?? "";
+
+  const ctx: KookMessageContext = {
+    channelId: channelType === "GROUP" ? body.target_id : body.user_id,
+    messageId: body.msg_id,
+    senderId: body.user_id,
+    senderName,
+    guildId: body.guild_id,
+    channelType,
+    messageType: event.type,
+    mentionedBot: true,
+    mentionAll: false,
+    mentionHere: false,
+    content: `[Button click] clicked button "${value}" on message ${body.msg_id}`,
+  };
+
+  if (!isKookSenderAllowed({ cfg: kookCfg, ctx })) {
+    log(`kook: button click from ${ctx.senderId} ignored, sender not allowed`);
+    return;
+  }
+  if (!isKookConversationEnabled({ cfg: kookCfg, ctx })) {
+    log(`kook: button click in ${ctx.channelId} ignored, bot is disabled there`);
+    return;
+  }
+  if (
+    channelType !== "GROUP" &&
+    !(await isKookDmSenderPaired({ cfg: kookCfg, accountId, senderId: ctx.senderId, senderName }))
+  ) {
+    log(`kook: button click from ${ctx.senderId} ignored, sender not paired`);
+    return;
+  }
+
+  log(`kook: button "${value}" clicked by ${ctx.senderId} on message ${body.msg_id}`);
+
+  const historyLimit = resolveKookHistoryLimit({
+    cfg,
+    kookCfg,
+    isDirectMessage: channelType !== "GROUP",
+  });
+
+  await dispatchKookInboundTurn({
+    cfg,
+    accountId,
+    ctx,
+    inboundLabel: channelType === "GROUP"
+      ? `KOOK button click in channel ${ctx.channelId}`
+      : `KOOK button click from ${ctx.senderId}`,
+    historyLimit,
+    runtime: params.runtime,
+    chatHistories: params.chatHistories,
+    dryRun: params.dryRun,
+  });
+}
+
+/**
+ * Reactions never start a turn. They are queued as system events for the
+ * conversation's session, so the agent sees them (e.g. 👍/👎 feedback) the
+ * next time it runs there. `reactionNotifications` decides which count:
+ * "own" only covers messages this process has sent.
+ */
+async function handleReaction(
+  params: KookSystemEventParams,
+  change: "added" | "removed",
+): Promise<void> {
+  const { cfg, accountId, event, runtime, dryRun } = params;
+  const log = runtime?.log ?? console.log;
+  const body = event.extra?.body as KookReactionBody | undefined;
+  if (!body?.msg_id || !body.user_id) return;
+
+  const context = resolveKookAccountContext({ cfg, accountId });
+  const emoji = body.emoji?.name || body.emoji?.id || "";
+
+  // Our own reactions, including the typing indicator
+  if (context.botId && body.user_id === context.botId) return;
+  if (emoji === TYPING_EMOJI || body.emoji?.id === TYPING_EMOJI) return;
+
+  const kookCfg = resolveKookAccount({ cfg, accountId }).config;
+  const isGroup = event.channel_type === "GROUP";
+  const channelId = isGroup ? (body.channel_id ?? event.target_id) : body.user_id;
+  const guildId = isGroup ? await resolveChannelGuildId(context, channelId) : undefined;
+
+  const mode = resolveKookReactionNotifications({
+    cfg: kookCfg,
+    groupId: isGroup ? (guildId ?? channelId) : undefined,
+    channelId: isGroup ? channelId : undefined,
+  });
+  if (mode === "off") return;
+  const ownMessage = context.caches.sentMessages.has(body.msg_id);
+  if (mode === "own" && !ownMessage) return;
+
+  const cachedName = context.caches.senderNames.get(body.user_id);
+  const senderName = cachedName && cachedName.expireAt > Date.now() ? cachedName.name : undefined;
+
+  const ctx: KookMessageContext = {
+    channelId,
+    messageId: body.msg_id,
+    senderId: body.user_id,
+    senderName,
+    guildId,
+    channelType: isGroup ? "GROUP" : "PERSON",
+    messageType: event.type,
+    mentionedBot: false,
+    mentionAll: false,
+    mentionHere: false,
+    content: "",
+  };
+  if (!isKookSenderAllowed({ cfg: kookCfg, ctx })) return;
+  if (!isKookConversationEnabled({ cfg: kookCfg, ctx })) return;
+  if (
+    !isGroup &&
+    !(await isKookDmSenderPaired({ cfg: kookCfg, accountId, senderId: ctx.senderId, senderName }))
+  ) {
+    return;
+  }
+
+  const who = senderName ? `${senderName} (${body.user_id})` : body.user_id;
+  const target = ownMessage ? `your message ${body.msg_id}` : `message ${body.msg_id}`;
+  const text = `KOOK reaction ${change}: ${emoji} by ${who} on ${target}`;
+
+  if (dryRun) {
+    log(`kook: [replay] ${text}`);
+    return;
+  }
+
+  const core = getKookRuntime();
+  const route = core.channel.routing.resolveAgentRoute({
+    cfg,
+    channel: "kook",
+    accountId,
+    peer: {
+      kind: isGroup ? "group" : "dm",
+      id: channelId,
+    },
+  });
+
+  core.system.enqueueSystemEvent(text, {
+    sessionKey: route.sessionKey,
+    contextKey: `kook:reaction:${channelId}:${body.msg_id}:${body.user_id}:${emoji}:${change}`,
+  });
+  log(`kook: queued reaction ${change} ${emoji} from ${body.user_id} on ${body.msg_id}`);
+}
+
+/**
+ * Reaction events carry only the channel ID; guild-level settings need the guild.
+ */
+async function resolveChannelGuildId(
+  context: KookAccountContext,
+  channelId: string,
+): Promise<string | undefined> {
+  const cached = context.caches.channelGuilds.get(channelId);
+  if (cached) return cached;
+
+  try {
+    const channel = await context.client.getChannel(channelId);
+    if (channel.guild_id) {
+      context.caches.channelGuilds.set(channelId, channel.guild_id);
+    }
+    return channel.guild_id;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Where an edited/deleted message lives, and its pending history key.
+ * Private events carry the other user as `author_id`; that is also the DM
+ * peer.
+ */
+async function resolveChangedMessageLocation(
+  context: KookAccountContext,
+  event: KookEventData,
+  body: { channel_id?: string; author_id?: string },
+): Promise<{ isGroup: boolean; channelId: string; guildId?: string; historyKey: string }> {
+  const isGroup = event.channel_type === "GROUP";
+  const channelId = isGroup ? (body.channel_id ?? event.target_id) : (body.author_id ?? event.author_id);
+  const guildId = isGroup ? await resolveChannelGuildId(context, channelId) : undefined;
+  const historyKey = resolveKookHistoryKey({
+    channelType: isGroup ? "GROUP" : "PERSON",
+    channelId,
+    senderId: channelId,
+  });
+  return { isGroup, channelId, guildId, historyKey };
+}
+
+/**
+ * Replace or drop a pending history entry by message ID.
+ */
+function patchHistoryEntry(
+  params: KookSystemEventParams,
+  historyKey: string,
+  msgId: string,
+  patch: (entry: HistoryEntry) => HistoryEntry | null,
+): void {
+  const entries = params.chatHistories?.get(historyKey);
+  if (!entries) return;
+  const index = entries.findIndex((entry) => entry.messageId === msgId);
+  if (index < 0) return;
+  const next = patch(entries[index]);
+  if (next) {
+    entries[index] = next;
+  } else {
+    entries.splice(index, 1);
+  }
+}
+
+async function retractTurnReplies(
+  params: KookSystemEventParams,
+  context: KookAccountContext,
+  turn: KookTurnRecord,
+): Promise<void> {
+  const log = params.runtime?.log ?? console.log;
+  for (const msgId of turn.replyIds) {
+    if (params.dryRun) {
+      log(`kook: [replay] would delete reply ${msgId}`);
+      continue;
+    }
+    try {
+      await deleteKookMessage({
+        cfg: params.cfg,
+        accountId: params.accountId,
+        channelType: turn.channelType,
+        msgId,
+      });
+      context.caches.sentMessages.delete(msgId);
+    } catch (err) {
+      log(`kook: failed to delete reply ${msgId}: ${String(err)}`);
+    }
+  }
+  turn.replyIds = [];
+}
+
+/**
+ * A user edited a message: refresh its pending history entry, and with
+ * `onEdit: "rerun"` replace the bot's answer if the message had triggered one.
+ */
+async function handleMessageUpdated(params: KookSystemEventParams): Promise<void> {
+  const { cfg, accountId, event, runtime } = params;
+  const log = runtime?.log ?? console.log;
+  const body = event.extra?.body as KookMessageUpdatedBody | undefined;
+  if (!body?.msg_id) return;
+
+  const context = resolveKookAccountContext({ cfg, accountId });
+  // Our own edits (block streaming) come back as events too
+  if (context.caches.sentMessages.has(body.msg_id)) return;
+
+  const kookCfg = resolveKookAccount({ cfg, accountId }).config;
+  const { isGroup, channelId, guildId, historyKey } = await resolveChangedMessageLocation(context, event, body);
+  const { onEdit } = resolveKookMessageChangePolicy({
+    cfg: kookCfg,
+    groupId: isGroup ? (guildId ?? channelId) : undefined,
+    channelId: isGroup ? channelId : undefined,
+  });
+  if (onEdit === "ignore") return;
+
+  const content = await normalizeKookInboundMentions({
+    context,
+    guildId,
+    content: body.content ?? "",
+    kmarkdown: body.kmarkdown,
+  });
+  patchHistoryEntry(params, historyKey, body.msg_id, (entry) => {
+    const cachedName = context.caches.senderNames.get(entry.sender)?.name;
+    return { ...entry, body: `${cachedName ?? entry.sender}: ${content}` };
+  });
+
+  const turn = context.caches.turns.get(body.msg_id);
+  if (onEdit !== "rerun" || !turn || !params.rerunMessage) return;
+
+  log(`kook: trigger message ${body.msg_id} was edited, re-running turn`);
+  await retractTurnReplies(params, context, turn);
+
+  const extra = turn.event.extra;
+  await params.rerunMessage({
+    ...turn.event,
+    content: body.content ?? "",
+    extra: {
+      ...extra,
+      mention: body.mention ?? extra.mention,
+      mention_all: body.mention_all ?? extra.mention_all,
+      mention_here: body.mention_here ?? extra.mention_here,
+      mention_roles: body.mention_roles ?? extra.mention_roles,
+      // The original raw_content no longer matches the text
+      kmarkdown: body.kmarkdown,
+    },
+  });
+}
+
+/**
+ * A user deleted a message: forget its pending history entry, and with
+ * `onDelete: "retract"` delete the bot's reply to it.
+ */
+async function handleMessageDeleted(params: KookSystemEventParams): Promise<void> {
+  const { cfg, accountId, event, runtime } = params;
+  const log = runtime?.log ?? console.log;
+  const body = event.extra?.body as KookMessageDeletedBody | undefined;
+  if (!body?.msg_id) return;
+
+  const context = resolveKookAccountContext({ cfg, accountId });
+  if (context.caches.sentMessages.has(body.msg_id)) {
+    context.caches.sentMessages.delete(body.msg_id);
+    return;
+  }
+
+  const kookCfg = resolveKookAccount({ cfg, accountId }).config;
+  const { isGroup, channelId, guildId, historyKey } = await resolveChangedMessageLocation(context, event, body);
+  const { onDelete } = resolveKookMessageChangePolicy({
+    cfg: kookCfg,
+    groupId: isGroup ? (guildId ?? channelId) : undefined,
+    channelId: isGroup ? channelId : undefined,
+  });
+  if (onDelete === "ignore") return;
+
+  patchHistoryEntry(params, historyKey, body.msg_id, () => null);
+
+  const turn = context.caches.turns.get(body.msg_id);
+  if (!turn) return;
+  context.caches.turns.delete(body.msg_id);
+
+  if (onDelete === "retract" && turn.replyIds.length > 0) {
+    log(`kook: trigger message ${body.msg_id} was deleted, retracting ${turn.replyIds.length} repl(ies)`);
+    await retractTurnReplies(params, context, turn);
+  }
+}
+
+/**
+ * Where member lifecycle notices for a guild go: the configured welcome
+ * channel, else the guild's own welcome channel. Undefined when the bot may
+ * not act in the guild, welcomes are off for it or that channel, or no
+ * channel is known.
+ */
+async function resolveWelcomeChannel(
+  params: KookSystemEventParams,
+  context: KookAccountContext,
+  guildId: string,
+): Promise<{ channelId: string; guildName?: string; prompt?: string } | undefined> {
+  const kookCfg = resolveKookAccount({ cfg: params.cfg, accountId: params.accountId }).config;
+  if (!isKookGuildAllowed({ cfg: kookCfg, groupId: guildId })) return undefined;
+
+  const welcome = resolveKookWelcomeConfig({ cfg: kookCfg, groupId: guildId });
+  if (!welcome.enabled) return undefined;
+
+  let guildName: string | undefined;
+  let channelId = welcome.channelId;
+  try {
+    const guild = await context.client.getGuild(guildId);
+    guildName = guild.name;
+    channelId ??= guild.welcome_channel_id || undefined;
+  } catch (err) {
+    const log = params.runtime?.log ?? console.log;
+    log(`kook: failed to look up guild ${guildId}: ${String(err)}`);
+  }
+  if (!channelId) return undefined;
+
+  // The chosen channel's own entry can still turn the bot or welcomes off, or reword them
+  if (!isKookGuildAllowed({ cfg: kookCfg, groupId: guildId, channelId })) return undefined;
+  const channelWelcome = resolveKookWelcomeConfig({ cfg: kookCfg, groupId: guildId, channelId });
+  if (!channelWelcome.enabled) return undefined;
+
+  context.caches.channelGuilds.set(channelId, guildId);
+  return { channelId, guildName, prompt: channelWelcome.prompt };
+}
+
+async function resolveMemberName(
+  context: KookAccountContext,
+  userId: string,
+  guildId: string,
+): Promise<string | undefined> {
+  try {
+    const user = await context.client.getUser(userId, guildId);
+    return user.nickname || user.username || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * A user joined a guild with `welcome` enabled. The agent writes the welcome:
+ * the turn runs in the welcome channel's session with the new member as the
+ * sender, and the reply is posted there without quoting anything.
+ */
+async function handleMemberJoined(params: KookSystemEventParams): Promise<void> {
+  const { cfg, accountId, event, runtime } = params;
+  const log = runtime?.log ?? console.log;
+  const body = event.extra?.body as KookGuildMemberBody | undefined;
+  if (!body?.user_id) return;
+
+  const guildId = event.target_id;
+  const context = resolveKookAccountContext({ cfg, accountId });
+  if (context.botId && body.user_id === context.botId) return;
+
+  const welcome = await resolveWelcomeChannel(params, context, guildId);
+  if (!welcome) return;
+
+  const senderName = await resolveMemberName(context, body.user_id, guildId);
+  const who = senderName ? `${senderName} (${body.user_id})` : body.user_id;
+  const where = welcome.guildName ? `the server "${welcome.guildName}"` : "the server";
+  const instructions = welcome.prompt ?? "Write them a short, friendly welcome message.";
+
+  const ctx: KookMessageContext = {
+    channelId: welcome.channelId,
+    messageId: event.msg_id,
+    senderId: body.user_id,
+    senderName,
+    guildId,
+    channelType: "GROUP",
+    messageType: event.type,
+    mentionedBot: true,
+    mentionAll: false,
+    mentionHere: false,
+    content:
+      `[Member joined] ${who} just joined ${where}. ${instructions} ` +
+      `Mention them as (met)${body.user_id}(met).`,
+  };
+
+  log(`kook: ${body.user_id} joined guild ${guildId}, welcoming in ${welcome.channelId}`);
+
+  await dispatchKookInboundTurn({
+    cfg,
+    accountId,
+    ctx,
+    inboundLabel: `KOOK member joined guild ${guildId}`,
+    // Unrelated channel chatter should not shape the welcome
+    historyLimit: 0,
+    runtime,
+    dryRun: params.dryRun,
+    standalone: true,
+  });
+}
+
+/**
+ * Leaves and voice-channel joins do not start a turn. With `welcome` enabled
+ * they are queued as context for the welcome channel's session.
+ */
+async function handleMemberNotice(params: KookSystemEventParams, what: string): Promise<void> {
+  const { cfg, accountId, event, runtime, dryRun } = params;
+  const log = runtime?.log ?? console.log;
+  const body = event.extra?.body as KookGuildMemberBody | undefined;
+  if (!body?.user_id) return;
+
+  const guildId = event.target_id;
+  const context = resolveKookAccountContext({ cfg, accountId });
+  if (context.botId && body.user_id === context.botId) return;
+
+  const welcome = await resolveWelcomeChannel(params, context, guildId);
+  if (!welcome) return;
+
+  const cachedName = context.caches.senderNames.get(body.user_id);
+  const senderName = cachedName && cachedName.expireAt > Date.now() ? cachedName.name : undefined;
+  const who = senderName ? `${senderName} (${body.user_id})` : body.user_id;
+  const channel = body.channel_id ? ` (channel ${body.channel_id})` : "";
+  const text = `KOOK member ${who} ${what}${channel}`;
+
+  if (dryRun) {
+    log(`kook: [replay] ${text}`);
+    return;
+  }
+
+  const core = getKookRuntime();
+  const route = core.channel.routing.resolveAgentRoute({
+    cfg,
+    channel: "kook",
+    accountId,
+    peer: { kind: "group", id: welcome.channelId },
+  });
+
+  core.system.enqueueSystemEvent(text, {
+    sessionKey: route.sessionKey,
+    contextKey: `kook:member:${guildId}:${body.user_id}:${event.extra?.type}:${event.msg_id}`,
+  });
+  log(`kook: queued member notice for ${body.user_id} in guild ${guildId}`);
+}
+
+/**
+ * The bot was added to or removed from a guild. There is no channel to talk
+ * in yet (or any more), so the notice goes to the agent's main session.
+ */
+async function handleSelfGuildChange(
+  params: KookSystemEventParams,
+  change: "joined" | "exited",
+): Promise<void> {
+  const { cfg, accountId, event, runtime, dryRun } = params;
+  const log = runtime?.log ?? console.log;
+  const body = event.extra?.body as KookSelfGuildBody | undefined;
+  const guildId = body?.guild_id;
+  if (!guildId) return;
+
+  const context = resolveKookAccountContext({ cfg, accountId });
+  let guildName: string | undefined;
+
+  if (change === "joined") {
+    try {
+      guildName = (await context.client.getGuild(guildId)).name;
+    } catch {
+      // Name is only for the notice
+    }
+    // KOOK creates the bot's role on join; mentions of it are mentions of us
+    await refreshBotGuildRole(context, guildId);
+  } else {
+    for (const [channelId, cachedGuildId] of context.caches.channelGuilds) {
+      if (cachedGuildId === guildId) context.caches.channelGuilds.delete(channelId);
+    }
+    context.caches.guildDirectories.delete(guildId);
+    context.caches.botRoles.delete(guildId);
+  }
+
+  const guild = guildName ? `"${guildName}" (${guildId})` : guildId;
+  const text = change === "joined"
+    ? `KOOK: you were added to the server ${guild}`
+    : `KOOK: you were removed from the server ${guild}`;
+  log(`kook: ${text}`);
+
+  if (dryRun) return;
+
+  const core = getKookRuntime();
+  const route = core.channel.routing.resolveAgentRoute({
+    cfg,
+    channel: "kook",
+    accountId,
+    peer: { kind: "group", id: guildId },
+  });
+
+  core.system.enqueueSystemEvent(text, {
+    sessionKey: route.mainSessionKey,
+    contextKey: `kook:guild:${guildId}:${change}:${event.msg_id}`,
+  });
+}
@@ -1,12 +1,35 @@
-import type { KookConfigSchema, KookGroupSchema, z } from "./config-schema.js";
+import type {
+  KookAccountConfigSchema,
+  KookChannelSchema,
+  KookConfigSchema,
+  KookGroupSchema,
+  z,
+} from "./config-schema.js";
 
 export type KookConfig = z.infer<typeof KookConfigSchema>;
+export type KookAccountConfig = z.infer<typeof KookAccountConfigSchema>;
 export type KookGroupConfig = z.infer<typeof KookGroupSchema>;
+export type KookChannelConfig = z.infer<typeof KookChannelSchema>;
+export type KookDmConfig = NonNullable<NonNullable<KookConfig["dms"]>[string]>;
+
+/** Which KMarkdown mention tokens outbound text may contain */
+export type KookMentionPolicy = {
+  users: boolean;
+  roles: boolean;
+  channels: boolean;
+  emoji: boolean;
+  /** (met)all(met) and (met)here(met) */
+  everyone: boolean;
+};
 
 export type ResolvedKookAccount = {
   accountId: string;
+  name?: string;
   enabled: boolean;
   configured: boolean;
+  token?: string;
+  /** Top-level settings merged with this account's overrides */
+  config: KookConfig;
   botId?: string;
   botName?: string;
 };
@@ -81,6 +104,37 @@ export type KookGuild = {
   welcome_channel_id?: string;
 };
 
+export type KookRole = {
+  role_id: number;
+  name: string;
+  color: number;
+  position: number;
+  hoist: number;          // 1 = shown separately in the member list
+  mentionable: number;    // 1 = anyone can @ the role
+  permissions: number;    // permission bitmask
+  type?: number;          // 0 = created by users, 1 = managed by a bot, 255 = everyone
+};
+
+export type KookRoleGrantResult = {
+  user_id: string;
+  guild_id: string;
+  roles: number[];
+};
+
+export type KookMuteList = {
+  /** Microphone muted */
+  mic: { type: 1; user_ids: string[] };
+  /** Headset (deafened) */
+  headset: { type: 2; user_ids: string[] };
+};
+
+export type KookBlacklistEntry = {
+  user_id: string;
+  created_time: number;
+  remark?: string;
+  user?: KookUser;
+};
+
 export type KookChannel = {
   id: string;
   name: string;
@@ -92,11 +146,36 @@ export type KookChannel = {
   level?: number;
   slow_mode?: number;
   type?: number;  // 1=text, 2=voice
-  permission_overwrites?: unknown[];
-  permission_users?: unknown[];
+  permission_overwrites?: KookRoleOverwrite[];
+  permission_users?: KookUserOverwrite[];
   permission_sync?: number;
+  limit_amount?: number;          // voice channel user limit
+};
+
+/** Channel permission overwrite; `allow`/`deny` are permission bitmasks */
+export type KookRoleOverwrite = {
+  role_id: number;
+  allow: number;
+  deny: number;
+};
+
+export type KookUserOverwrite = {
+  user: KookUser;
+  allow: number;
+  deny: number;
 };
 
+export type KookChannelPermissions = {
+  permission_overwrites: KookRoleOverwrite[];
+  permission_users: KookUserOverwrite[];
+  permission_sync: number;
+};
+
+/** Who a channel permission overwrite applies to */
+export type KookOverwriteTarget =
+  | { type: "role_id"; value: number }
+  | { type: "user_id"; value: string };
+
 // WebSocket event data (s=0)
 export type KookEventData = {
   channel_type: "GROUP" | "PERSON" | "BROADCAST";
@@ -129,9 +208,65 @@ export type KookEventExtra = {
   attachments?: KookAttachment;
   kmarkdown?: {
     raw_content?: string;
-    mention_part?: Array<{ id: string; username: string }>;
+    mention_part?: Array<{ id: string; username: string; full_name?: string }>;
     mention_role_part?: Array<{ role_id: number; name: string }>;
+    channel_part?: Array<{ id: string; guild_id?: string; name: string }>;
   };
+  /** System events (type 255): payload, shape depends on `type` */
+  body?: unknown;
+};
+
+// System event bodies (type 255, keyed by extra.type)
+
+export type KookButtonClickBody = {
+  msg_id: string;                  // card message the button belongs to
+  user_id: string;
+  value: string;                   // the button's return-val
+  target_id: string;               // channel ID (GROUP) or user ID (PERSON)
+  channel_type?: "GROUP" | "PERSON";
+  guild_id?: string;
+  user_info?: KookUser;
+};
+
+export type KookMessageUpdatedBody = {
+  msg_id: string;
+  content: string;
+  channel_id?: string;             // updated_message
+  author_id?: string;              // updated_private_message
+  chat_code?: string;
+  mention?: string[];
+  mention_all?: boolean;
+  mention_here?: boolean;
+  mention_roles?: number[];
+  kmarkdown?: KookEventExtra["kmarkdown"];
+  updated_at?: number;
+};
+
+export type KookMessageDeletedBody = {
+  msg_id: string;
+  channel_id?: string;             // deleted_message
+  author_id?: string;              // deleted_private_message
+  chat_code?: string;
+};
+
+export type KookGuildMemberBody = {
+  user_id: string;
+  channel_id?: string;             // joined_channel
+  joined_at?: number;
+  exited_at?: number;
+};
+
+export type KookSelfGuildBody = {
+  guild_id: string;
+  state?: string;
+};
+
+export type KookReactionBody = {
+  msg_id: string;
+  user_id: string;                 // who reacted
+  emoji: { id: string; name: string };
+  channel_id?: string;             // added_reaction / deleted_reaction
+  chat_code?: string;              // private_added_reaction / private_deleted_reaction
 };
 
 export type KookAttachment = {
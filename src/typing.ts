@@ -1,12 +1,13 @@
 import type { OpenClawConfig } from "openclaw/plugin-sdk";
-import type { KookConfig } from "./types.js";
-import { createKookClient } from "./client.js";
+import { resolveKookAccount } from "./accounts.js";
+import { resolveKookAccountContext } from "./context.js";
 
 // KOOK doesn't have a native typing indicator.
 // We use a reaction (emoji) on the user's message as a typing indicator.
-const TYPING_EMOJI = "💭";
+export const TYPING_EMOJI = "💭";
 
 export type TypingIndicatorState = {
+  accountId?: string | null;
   messageId: string;
   channelType: "GROUP" | "PERSON";
   emoji: string;
@@ -17,28 +18,29 @@ export type TypingIndicatorState = {
  */
 export async function addTypingIndicator(params: {
   cfg: OpenClawConfig;
+  accountId?: string | null;
   messageId: string;
   channelType: "GROUP" | "PERSON";
 }): Promise<TypingIndicatorState> {
-  const { cfg, messageId, channelType } = params;
-  const kookCfg = cfg.channels?.kook as KookConfig | undefined;
-  if (!kookCfg?.token) {
-    return { messageId, channelType, emoji: TYPING_EMOJI };
+  const { cfg, accountId, messageId, channelType } = params;
+  const account = resolveKookAccount({ cfg, accountId });
+  if (!account.token) {
+    return { accountId, messageId, channelType, emoji: TYPING_EMOJI };
   }
 
   try {
-    const client = createKookClient(kookCfg);
+    const { client } = resolveKookAccountContext({ cfg, accountId });
 
     if (channelType === "PERSON") {
-      await client.addDirectReaction(messageId, TYPING_EMOJI);
+      await client.addDirectReaction(messageId, TYPING_EMOJI, { priority: "typing" });
     } else {
-      await client.addReaction(messageId, TYPING_EMOJI);
+      await client.addReaction(messageId, TYPING_EMOJI, { priority: "typing" });
     }
   } catch {
     // Silently fail - typing indicator is not critical
   }
 
-  return { messageId, channelType, emoji: TYPING_EMOJI };
+  return { accountId, messageId, channelType, emoji: TYPING_EMOJI };
 }
 
 /**
@@ -49,16 +51,16 @@ export async function removeTypingIndicator(params: {
   state: TypingIndicatorState;
 }): Promise<void> {
   const { cfg, state } = params;
-  const kookCfg = cfg.channels?.kook as KookConfig | undefined;
-  if (!kookCfg?.token) return;
+  const account = resolveKookAccount({ cfg, accountId: state.accountId });
+  if (!account.token) return;
 
   try {
-    const client = createKookClient(kookCfg);
+    const { client } = resolveKookAccountContext({ cfg, accountId: state.accountId });
 
     if (state.channelType === "PERSON") {
-      await client.deleteDirectReaction(state.messageId, state.emoji);
+      await client.deleteDirectReaction(state.messageId, state.emoji, undefined, { priority: "typing" });
     } else {
-      await client.deleteReaction(state.messageId, state.emoji);
+      await client.deleteReaction(state.messageId, state.emoji, undefined, { priority: "typing" });
     }
   } catch {
     // Silently fail - cleanup is not critical
@@ -0,0 +1,242 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { createDecipheriv } from "node:crypto";
+import { inflate } from "node:zlib";
+import { promisify } from "node:util";
+import type { KookEventData, KookWSSignal } from "./types.js";
+
+const inflateAsync = promisify(inflate);
+
+/**
+ * KOOK webhook receiver.
+ *
+ * KOOK POSTs the same `{ s: 0, d, sn }` signal the WebSocket gateway sends.
+ * Bodies are zlib-compressed unless the callback URL has `compress=0`, and
+ * wrapped as `{ encrypt: "..." }` when an Encrypt Key is set on the bot.
+ *
+ * Challenge handshake: when the callback URL is saved, KOOK sends
+ * `d.type=255, d.channel_type="WEBHOOK_CHALLENGE"` and expects
+ * `{ challenge }` echoed back within 1s.
+ */
+
+export const DEFAULT_WEBHOOK_PORT = 3000;
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const SEEN_SN_LIMIT = 1000;
+
+export type KookWebhookOptions = {
+  port: number;
+  path: string;
+  host?: string;
+  verifyToken: string;
+  encryptKey?: string;
+  onEvent: (event: KookEventData) => void;
+  log: (...args: unknown[]) => void;
+  error: (...args: unknown[]) => void;
+  abortSignal?: AbortSignal;
+};
+
+type KookWebhookEventData = KookEventData & {
+  verify_token?: string;
+  challenge?: string;
+};
+
+export class KookWebhookError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "KookWebhookError";
+  }
+}
+
+/**
+ * Decrypt an `encrypt` payload.
+ * base64 → first 16 bytes are the IV, the rest is base64 ciphertext.
+ * The key is encryptKey right-padded with \0 to 32 bytes (AES-256-CBC).
+ */
+export function decryptKookPayload(encrypted: string, encryptKey: string): string {
+  const decoded = Buffer.from(encrypted, "base64");
+  const iv = decoded.subarray(0, 16);
+  const cipherText = Buffer.from(decoded.subarray(16).toString("utf-8"), "base64");
+
+  const key = Buffer.alloc(32);
+  Buffer.from(encryptKey, "utf-8").copy(key, 0, 0, 32);
+
+  const decipher = createDecipheriv("aes-256-cbc", key, iv);
+  return Buffer.concat([decipher.update(cipherText), decipher.final()]).toString("utf-8");
+}
+
+/**
+ * Turn a raw webhook request body into a signal: inflate if compressed,
+ * decrypt if encrypted.
+ */
+export async function parseKookWebhookBody(
+  raw: Buffer,
+  encryptKey?: string,
+): Promise<KookWSSignal> {
+  let text: string;
+  try {
+    text = (await inflateAsync(raw)).toString("utf-8");
+  } catch {
+    // Not compressed (compress=0 on the callback URL)
+    text = raw.toString("utf-8");
+  }
+
+  let json: Record<string, unknown>;
+  try {
+    json = JSON.parse(text) as Record<string, unknown>;
+  } catch {
+    throw new KookWebhookError(400, "invalid JSON body");
+  }
+
+  if (typeof json.encrypt === "string") {
+    if (!encryptKey) {
+      throw new KookWebhookError(400, "encrypted payload received but encryptKey is not configured");
+    }
+    try {
+      json = JSON.parse(decryptKookPayload(json.encrypt, encryptKey)) as Record<string, unknown>;
+    } catch {
+      throw new KookWebhookError(400, "failed to decrypt payload (check encryptKey)");
+    }
+  }
+
+  return json as unknown as KookWSSignal;
+}
+
+export class KookWebhookServer {
+  private server: Server | null = null;
+  private seenSn: Set<number> = new Set();
+
+  constructor(private options: KookWebhookOptions) {}
+
+  async start(): Promise<void> {
+    if (this.options.abortSignal) {
+      this.options.abortSignal.addEventListener("abort", () => {
+        this.stop();
+      }, { once: true });
+    }
+
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((err) => {
+        this.options.error("kook webhook: request handler error", err);
+        if (!res.headersSent) this.respond(res, 500, { error: "internal error" });
+      });
+    });
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port, this.options.host, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+
+    this.options.log(`kook webhook: listening on port ${this.port}, path ${this.options.path}`);
+  }
+
+  /** The bound port, which differs from `options.port` when that is 0 */
+  get port(): number {
+    const address = this.server?.address();
+    return address && typeof address === "object" ? address.port : this.options.port;
+  }
+
+  stop(): void {
+    if (this.server) {
+      this.server.close();
+      this.server = null;
+    }
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+    if (pathname !== this.options.path) {
+      this.respond(res, 404, { error: "not found" });
+      return;
+    }
+    if (req.method !== "POST") {
+      this.respond(res, 405, { error: "method not allowed" });
+      return;
+    }
+
+    let signal: KookWSSignal;
+    try {
+      const raw = await this.readBody(req);
+      signal = await parseKookWebhookBody(raw, this.options.encryptKey);
+    } catch (err) {
+      const status = err instanceof KookWebhookError ? err.statusCode : 400;
+      this.options.error(`kook webhook: rejected request: ${String(err)}`);
+      // The rest of an oversized body is discarded, not read; don't reuse the socket
+      if (status === 413) res.setHeader("Connection", "close");
+      this.respond(res, status, { error: "bad request" });
+      return;
+    }
+
+    const data = signal.d as KookWebhookEventData | undefined;
+    if (!data || typeof data !== "object") {
+      this.respond(res, 400, { error: "missing event data" });
+      return;
+    }
+
+    if (data.verify_token !== this.options.verifyToken) {
+      this.options.error("kook webhook: verify_token mismatch");
+      this.respond(res, 403, { error: "invalid verify_token" });
+      return;
+    }
+
+    // Challenge handshake
+    if (data.type === 255 && (data.channel_type as string) === "WEBHOOK_CHALLENGE") {
+      this.options.log("kook webhook: challenge received");
+      this.respond(res, 200, { challenge: data.challenge });
+      return;
+    }
+
+    // Acknowledge before processing; KOOK retries slow deliveries
+    this.respond(res, 200, {});
+
+    // KOOK may deliver the same event more than once
+    if (signal.sn !== undefined) {
+      if (this.seenSn.has(signal.sn)) return;
+      this.seenSn.add(signal.sn);
+      if (this.seenSn.size > SEEN_SN_LIMIT) {
+        const oldest = this.seenSn.values().next().value;
+        if (oldest !== undefined) this.seenSn.delete(oldest);
+      }
+    }
+
+    const { verify_token: _verifyToken, ...event } = data;
+    try {
+      this.options.onEvent(event as KookEventData);
+    } catch (err) {
+      this.options.error("kook webhook: event handler error", err);
+    }
+  }
+
+  private readBody(req: IncomingMessage): Promise<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const onData = (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          // Stop buffering but keep draining, so the 413 can still be sent
+          req.off("data", onData);
+          req.resume();
+          reject(new KookWebhookError(413, "payload too large"));
+          return;
+        }
+        chunks.push(chunk);
+      };
+      req.on("data", onData);
+      req.on("end", () => resolve(Buffer.concat(chunks)));
+      req.on("error", reject);
+    });
+  }
+
+  private respond(res: ServerResponse, status: number, body: unknown): void {
+    res.statusCode = status;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify(body));
+  }
+}
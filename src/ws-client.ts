@@ -1,7 +1,9 @@
 import WebSocket from "ws";
 import { inflate } from "node:zlib";
 import { promisify } from "node:util";
+import type { Agent } from "node:http";
 import type { KookClient } from "./client.js";
+import type { KookEventRecorder } from "./recorder.js";
 import type { KookWSSignal, KookHelloData, KookEventData } from "./types.js";
 
 const inflateAsync = promisify(inflate);
@@ -22,18 +24,60 @@ const HELLO_CODE = {
   INVALID_TOKEN: 40101,
   TOKEN_VERIFY_FAIL: 40102,
   TOKEN_EXPIRED: 40103,
+  RESUME_MISSING_PARAMS: 40106,
+  SESSION_EXPIRED: 40107,
+  INVALID_SN: 40108,
 } as const;
 
+// HELLO codes that mean the server refused to resume; start a fresh session
+const RESUME_REFUSED_CODES: ReadonlySet<number> = new Set([
+  HELLO_CODE.RESUME_MISSING_PARAMS,
+  HELLO_CODE.SESSION_EXPIRED,
+  HELLO_CODE.INVALID_SN,
+]);
+
+export type KookWSSessionState = {
+  sessionId: string;
+  lastSn: number;
+};
+
+export type KookWSStats = {
+  /** Events currently parked waiting for a missing sn */
+  bufferedEvents: number;
+  /** Missing sns given up on after a gap timeout or buffer overflow */
+  skippedSn: number;
+  /** Events discarded as duplicates or arriving after their sn was skipped */
+  droppedEvents: number;
+};
+
 export type KookWSOptions = {
   client: KookClient;
   compress?: boolean;
+  /** Session to resume on the first connect (e.g. persisted across a restart) */
+  initialSession?: KookWSSessionState | null;
   onEvent: (event: KookEventData) => void;
+  /** Records every dispatched event (opt-in debugging aid) */
+  recorder?: KookEventRecorder | null;
+  /** Called whenever the session id or last sn changes; `null` when the session is reset */
+  onSessionUpdate?: (session: KookWSSessionState | null) => void;
+  /** Called when the out-of-order buffer counters change */
+  onStats?: (stats: KookWSStats) => void;
+  /** How long to wait for a missing sn before recovering (default 10s) */
+  gapTimeoutMs?: number;
+  /** Max events parked behind a missing sn before flushing (default 200) */
+  maxBufferSize?: number;
+  /** PING interval, ±5s jitter is added (default 30s) */
+  heartbeatIntervalMs?: number;
+  /** How long to wait for a PONG before starting recovery (default 6s) */
+  pongTimeoutMs?: number;
   onConnected?: () => void;
   onDisconnected?: () => void;
   onError?: (error: Error) => void;
   log: (...args: unknown[]) => void;
   error: (...args: unknown[]) => void;
   abortSignal?: AbortSignal;
+  /** HTTP agent for the WebSocket upgrade, e.g. a proxy agent */
+  agent?: Agent;
 };
 
 const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
@@ -46,6 +90,10 @@ export class KookWSClient {
   private pongTimeout: ReturnType<typeof setTimeout> | null = null;
   private reconnectAttempts = 0;
   private buffer: Map<number, KookWSSignal> = new Map();
+  private gapTimer: ReturnType<typeof setTimeout> | null = null;
+  private gapResumeAttempted = false;
+  private skippedSn = 0;
+  private droppedEvents = 0;
   private stopped = false;
   private compress: boolean;
 
@@ -54,8 +102,16 @@ export class KookWSClient {
   private static readonly HEARTBEAT_JITTER_MS = 5_000;
   private static readonly PONG_TIMEOUT_MS = 6_000;
 
+  // Out-of-order buffer limits
+  private static readonly GAP_TIMEOUT_MS = 10_000;
+  private static readonly MAX_BUFFER_SIZE = 200;
+
   constructor(private options: KookWSOptions) {
     this.compress = options.compress ?? true;
+    if (options.initialSession) {
+      this.sessionId = options.initialSession.sessionId;
+      this.lastSn = options.initialSession.lastSn;
+    }
   }
 
   async start(): Promise<void> {
@@ -68,13 +124,14 @@ export class KookWSClient {
       }, { once: true });
     }
 
-    await this.connectFresh();
+    await this.connectGateway();
   }
 
   stop(): void {
     this.stopped = true;
     this.clearHeartbeat();
     this.clearPongTimeout();
+    this.clearGapTimer();
     if (this.ws) {
       try { this.ws.close(1000); } catch {}
       this.ws = null;
@@ -82,30 +139,49 @@ export class KookWSClient {
     this.options.onDisconnected?.();
   }
 
-  private async connectFresh(): Promise<void> {
+  /**
+   * Connect to the gateway. If a session is still held, ask the server to
+   * resume it (`resume=1&sn=&session_id=`) so events sent while we were
+   * offline are replayed; otherwise open a fresh session.
+   */
+  private async connectGateway(): Promise<void> {
     if (this.stopped) return;
 
     try {
       const { url } = await this.options.client.getGateway(this.compress ? 1 : 0);
       this.options.log("kook ws: gateway URL obtained");
-      await this.connect(url);
+      await this.connect(this.buildGatewayUrl(url));
     } catch (err) {
-      this.options.error("kook ws: failed to get gateway", err);
+      this.options.error("kook ws: failed to connect to gateway", err);
       if (!this.stopped) {
         await this.reconnectWithBackoff();
       }
     }
   }
 
+  private buildGatewayUrl(url: string): string {
+    if (!this.sessionId) return url;
+
+    const resumeUrl = new URL(url);
+    resumeUrl.searchParams.set("resume", "1");
+    resumeUrl.searchParams.set("sn", String(this.lastSn));
+    resumeUrl.searchParams.set("session_id", this.sessionId);
+    this.options.log(`kook ws: resuming session=${this.sessionId} from sn=${this.lastSn}`);
+    return resumeUrl.toString();
+  }
+
   private connect(url: string): Promise<void> {
     return new Promise<void>((resolve, reject) => {
       if (this.stopped) { resolve(); return; }
 
-      const ws = new WebSocket(url);
+      const ws = new WebSocket(url, { agent: this.options.agent });
       this.ws = ws;
+      const resuming = this.sessionId !== null;
+      let established = false;
 
       const helloTimeout = setTimeout(() => {
         this.options.error("kook ws: HELLO timeout (6s)");
+        this.ws = null;
         ws.close();
         reject(new Error("HELLO timeout"));
       }, 6000);
@@ -123,14 +199,24 @@ export class KookWSClient {
             clearTimeout(helloTimeout);
             const hello = signal.d as KookHelloData;
             if (hello.code === HELLO_CODE.SUCCESS) {
-              this.sessionId = hello.session_id ?? null;
+              established = true;
+              this.sessionId = hello.session_id ?? this.sessionId;
               this.reconnectAttempts = 0;
+              this.emitSessionUpdate();
               this.startHeartbeat();
-              this.options.log(`kook ws: HELLO success, session=${this.sessionId}`);
+              this.options.log(
+                `kook ws: HELLO success, session=${this.sessionId}${resuming ? ` (resumed from sn=${this.lastSn})` : ""}`,
+              );
               this.options.onConnected?.();
               resolve();
             } else {
-              this.options.error(`kook ws: HELLO failed with code ${hello.code}`);
+              if (RESUME_REFUSED_CODES.has(hello.code)) {
+                this.options.log(`kook ws: resume refused (code ${hello.code}), starting a fresh session`);
+                this.resetSession();
+              } else {
+                this.options.error(`kook ws: HELLO failed with code ${hello.code}`);
+              }
+              this.ws = null;
               ws.close();
               reject(new Error(`HELLO code ${hello.code}`));
             }
@@ -146,8 +232,16 @@ export class KookWSClient {
       ws.on("close", (code, reason) => {
         this.options.log(`kook ws: closed (code=${code}, reason=${reason.toString()})`);
         clearTimeout(helloTimeout);
+        // A socket we replaced or abandoned ourselves; whoever did that reconnects
+        if (this.ws !== ws) return;
+        this.ws = null;
         this.clearHeartbeat();
         this.clearPongTimeout();
+        if (!established) {
+          // connectGateway() handles the retry for connections that never got HELLO
+          reject(new Error(`closed before HELLO (code=${code})`));
+          return;
+        }
         if (!this.stopped) {
           this.reconnectWithBackoff();
         }
@@ -218,12 +312,23 @@ export class KookWSClient {
       this.lastSn = sn;
       this.dispatchEvent(signal.d as KookEventData);
       this.processEventBuffer();
+      this.emitSessionUpdate();
     } else if (sn > this.lastSn + 1) {
       // Out of order, buffer it
       this.buffer.set(sn, signal);
       this.options.log(`kook ws: buffered out-of-order event sn=${sn} (expected ${this.lastSn + 1})`);
+      const maxBufferSize = this.options.maxBufferSize ?? KookWSClient.MAX_BUFFER_SIZE;
+      if (this.buffer.size > maxBufferSize) {
+        this.flushEventBuffer(`buffer exceeded ${maxBufferSize} events`);
+      } else {
+        this.armGapTimer();
+      }
+      this.emitStats();
+    } else {
+      // sn <= lastSn: duplicate or already skipped, ignore
+      this.droppedEvents++;
+      this.emitStats();
     }
-    // else sn <= lastSn: duplicate, ignore
   }
 
   private processEventBuffer(): void {
@@ -234,9 +339,96 @@ export class KookWSClient {
       this.lastSn++;
       this.dispatchEvent(next.d as KookEventData);
     }
+    if (this.buffer.size === 0 && this.gapTimer) {
+      // Gap filled in time
+      this.clearGapTimer();
+      this.emitStats();
+    }
+  }
+
+  // ---- Gap Recovery ----
+
+  /**
+   * Start the gap timer when the first event is parked. On the first timeout
+   * ask the server to resend from the last good sn; if the gap is still open
+   * after a second timeout, give up on the missing sns.
+   */
+  private armGapTimer(): void {
+    if (this.gapTimer) return;
+    const timeoutMs = this.options.gapTimeoutMs ?? KookWSClient.GAP_TIMEOUT_MS;
+
+    this.gapTimer = setTimeout(() => {
+      this.gapTimer = null;
+      if (this.buffer.size === 0) return;
+
+      if (!this.gapResumeAttempted && this.sendResume()) {
+        this.gapResumeAttempted = true;
+        this.options.log(`kook ws: sn=${this.lastSn + 1} missing for ${timeoutMs}ms, requesting RESUME`);
+        this.armGapTimer();
+        return;
+      }
+
+      this.flushEventBuffer(`sn=${this.lastSn + 1} missing for ${timeoutMs}ms`);
+    }, timeoutMs);
+  }
+
+  private clearGapTimer(): void {
+    if (this.gapTimer) {
+      clearTimeout(this.gapTimer);
+      this.gapTimer = null;
+    }
+    this.gapResumeAttempted = false;
+  }
+
+  /**
+   * Dispatch every parked event in sn order, skipping over the missing ones.
+   */
+  private flushEventBuffer(reason: string): void {
+    const sns = Array.from(this.buffer.keys()).sort((a, b) => a - b);
+    let skipped = 0;
+
+    for (const sn of sns) {
+      const signal = this.buffer.get(sn)!;
+      this.buffer.delete(sn);
+      skipped += sn - this.lastSn - 1;
+      this.lastSn = sn;
+      this.dispatchEvent(signal.d as KookEventData);
+    }
+
+    this.skippedSn += skipped;
+    this.clearGapTimer();
+    this.options.log(
+      `kook ws: WARNING ${reason}, skipped ${skipped} sn(s) and flushed ${sns.length} buffered event(s) (now at sn=${this.lastSn})`,
+    );
+    this.emitSessionUpdate();
+    this.emitStats();
+  }
+
+  getStats(): KookWSStats {
+    return {
+      bufferedEvents: this.buffer.size,
+      skippedSn: this.skippedSn,
+      droppedEvents: this.droppedEvents,
+    };
+  }
+
+  private emitStats(): void {
+    this.options.onStats?.(this.getStats());
+  }
+
+  private emitSessionUpdate(): void {
+    if (!this.options.onSessionUpdate) return;
+    this.options.onSessionUpdate(
+      this.sessionId ? { sessionId: this.sessionId, lastSn: this.lastSn } : null,
+    );
   }
 
   private dispatchEvent(event: KookEventData): void {
+    try {
+      this.options.recorder?.record(event);
+    } catch (err) {
+      this.options.error("kook ws: event recorder error", err);
+    }
     try {
       this.options.onEvent(event);
     } catch (err) {
@@ -248,8 +440,10 @@ export class KookWSClient {
 
   private startHeartbeat(): void {
     this.clearHeartbeat();
-    const jitter = Math.floor(Math.random() * KookWSClient.HEARTBEAT_JITTER_MS * 2) - KookWSClient.HEARTBEAT_JITTER_MS;
-    const interval = KookWSClient.HEARTBEAT_INTERVAL_MS + jitter;
+    const baseInterval = this.options.heartbeatIntervalMs ?? KookWSClient.HEARTBEAT_INTERVAL_MS;
+    const maxJitter = Math.min(KookWSClient.HEARTBEAT_JITTER_MS, Math.floor(baseInterval / 2));
+    const jitter = Math.floor(Math.random() * maxJitter * 2) - maxJitter;
+    const interval = baseInterval + jitter;
 
     this.heartbeatTimer = setInterval(() => {
       this.sendPing();
@@ -271,7 +465,11 @@ export class KookWSClient {
     this.pongTimeout = setTimeout(() => {
       this.options.log("kook ws: PONG timeout, attempting recovery");
       this.attemptRecovery();
-    }, KookWSClient.PONG_TIMEOUT_MS);
+    }, this.pongTimeoutMs);
+  }
+
+  private get pongTimeoutMs(): number {
+    return this.options.pongTimeoutMs ?? KookWSClient.PONG_TIMEOUT_MS;
   }
 
   private handlePong(): void {
@@ -304,7 +502,7 @@ export class KookWSClient {
       await sleep((i + 1) * 2000);
       if (this.ws?.readyState === WebSocket.OPEN) {
         this.sendPing();
-        await sleep(KookWSClient.PONG_TIMEOUT_MS);
+        await sleep(this.pongTimeoutMs);
         if (this.pongTimeout === null) {
           // PONG received, recovery successful
           this.options.log("kook ws: recovery successful via extra PING");
@@ -326,9 +524,9 @@ export class KookWSClient {
       }
     }
 
-    // Step 3: Full reconnect
-    this.options.log("kook ws: recovery failed, full reconnect");
-    this.handleReconnect();
+    // Step 3: New connection, resuming the session if the server still has it
+    this.options.log("kook ws: recovery failed, reconnecting");
+    this.reconnect({ resetSession: false });
   }
 
   private async tryResume(): Promise<boolean> {
@@ -337,7 +535,7 @@ export class KookWSClient {
     }
 
     try {
-      this.ws.send(JSON.stringify({ s: SIGNAL.RESUME, d: { sn: this.lastSn } }));
+      if (!this.sendResume()) return false;
       // Wait 6s then check if heartbeat restarted (RESUME_ACK handler restarts it)
       await sleep(6000);
       return this.heartbeatTimer !== null;
@@ -346,25 +544,53 @@ export class KookWSClient {
     }
   }
 
+  private sendResume(): boolean {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return false;
+    try {
+      this.ws.send(JSON.stringify({ s: SIGNAL.RESUME, d: { sn: this.lastSn } }));
+      return true;
+    } catch (err) {
+      this.options.error("kook ws: failed to send RESUME", err);
+      return false;
+    }
+  }
+
+  /**
+   * Server-sent RECONNECT (s=5): the session is gone on the server side, so
+   * the protocol requires clearing sn and the buffer before reconnecting.
+   */
   private handleReconnect(): void {
-    // Full reset
-    this.lastSn = 0;
-    this.sessionId = null;
-    this.buffer.clear();
-    if (this.ws) {
-      try { this.ws.close(1000); } catch {}
-      this.ws = null;
+    this.reconnect({ resetSession: true });
+  }
+
+  private reconnect(opts: { resetSession: boolean }): void {
+    if (opts.resetSession) {
+      this.resetSession();
+    }
+    const ws = this.ws;
+    this.ws = null;
+    if (ws) {
+      try { ws.close(1000); } catch {}
     }
     this.clearHeartbeat();
     this.clearPongTimeout();
 
     if (!this.stopped) {
-      this.connectFresh();
+      this.connectGateway();
     }
   }
 
+  private resetSession(): void {
+    this.lastSn = 0;
+    this.sessionId = null;
+    this.buffer.clear();
+    this.clearGapTimer();
+    this.emitSessionUpdate();
+  }
+
   private handleResumeAck(d: { session_id: string }): void {
     this.sessionId = d.session_id;
+    this.emitSessionUpdate();
     this.startHeartbeat();
   }
 
@@ -377,7 +603,7 @@ export class KookWSClient {
     await sleep(backoff);
 
     if (!this.stopped) {
-      await this.connectFresh();
+      await this.connectGateway();
     }
   }
 }
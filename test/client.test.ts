@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { FakeKookServer } from "./fake-server.js";
+import { KookTimeoutError, createKookClient } from "../src/client.js";
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+test("a message create that times out after the server accepted it is not sent again", async (t) => {
+  const server = new FakeKookServer();
+  await server.start();
+  t.after(() => server.stop());
+
+  // The server takes the request and answers after the client gave up
+  server.failNext("/message/create", { kind: "delay", delayMs: 300 });
+  const client = createKookClient("token", { baseUrl: server.baseUrl, timeoutMs: 100 });
+
+  // A nonce is only echoed back by KOOK, it does not make the create safe to repeat
+  await assert.rejects(
+    client.createMessage("3000000001", "hello", { nonce: "nonce-1" }),
+    KookTimeoutError,
+  );
+
+  // Long enough for any retry backoff to have fired
+  await sleep(1000);
+  assert.equal(server.requestsTo("/message/create").length, 1);
+});
+
+test("a message create is retried when the connection was never made", async (t) => {
+  const server = new FakeKookServer();
+  await server.start();
+  t.after(() => server.stop());
+
+  let attempts = 0;
+  const client = createKookClient("token", {
+    baseUrl: server.baseUrl,
+    fetch: (input, init) => {
+      if (attempts++ === 0) {
+        const cause = Object.assign(new Error("connect ECONNREFUSED"), { code: "ECONNREFUSED" });
+        return Promise.reject(new TypeError("fetch failed", { cause }));
+      }
+      return fetch(input, init);
+    },
+  });
+
+  const result = await client.createMessage("3000000001", "hello");
+
+  assert.ok(result.msgId);
+  assert.equal(attempts, 2);
+  assert.equal(server.requestsTo("/message/create").length, 1);
+});
+
+test("a message delete whose answer was lost counts as done when the retry finds it gone", async (t) => {
+  const server = new FakeKookServer();
+  await server.start();
+  t.after(() => server.stop());
+
+  let deletes = 0;
+  const client = createKookClient("token", {
+    baseUrl: server.baseUrl,
+    fetch: async (input, init) => {
+      const res = await fetch(input, init);
+      // The server deletes the message, then the connection drops before the answer arrives
+      if (String(input).endsWith("/message/delete") && deletes++ === 0) {
+        await res.text();
+        throw new TypeError("fetch failed", { cause: new Error("other side closed") });
+      }
+      return res;
+    },
+  });
+  const { msgId } = await client.createMessage("3000000001", "hello");
+
+  await client.deleteMessage(msgId);
+
+  assert.equal(server.requestsTo("/message/delete").length, 2);
+});
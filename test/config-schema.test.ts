@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  KookAccountConfigSchema,
+  KookChannelSchema,
+  KookConfigJsonSchema,
+  KookConfigSchema,
+  KookGroupSchema,
+} from "../src/config-schema.js";
+
+type JsonObjectSchema = { properties: Record<string, unknown> };
+
+const keys = (object: object) => Object.keys(object).sort();
+
+test("the JSON schema lists every account, guild and channel setting", () => {
+  const { properties } = KookConfigJsonSchema;
+  const account = properties.accounts.additionalProperties;
+  const group = properties.groups.additionalProperties as JsonObjectSchema;
+  const channel = (group.properties.channels as { additionalProperties: JsonObjectSchema })
+    .additionalProperties;
+
+  assert.deepEqual(keys(account.properties), keys(KookAccountConfigSchema.shape));
+  assert.deepEqual(keys(properties), [...keys(KookAccountConfigSchema.shape), "accounts"].sort());
+  assert.deepEqual(keys(group.properties), keys(KookGroupSchema.shape));
+  assert.deepEqual(keys(channel.properties), keys(KookChannelSchema.shape));
+});
+
+test("two webhook accounts cannot share a port and path", () => {
+  const webhook = { connectionMode: "webhook", verifyToken: "verify" };
+
+  const clash = KookConfigSchema.safeParse({
+    ...webhook,
+    accounts: { main: { token: "token-1" }, backup: { token: "token-2" } },
+  });
+  assert.equal(clash.success, false);
+  assert.deepEqual(clash.error?.issues.map((issue) => issue.path), [["accounts", "backup", "webhookPort"]]);
+
+  const apart = KookConfigSchema.safeParse({
+    ...webhook,
+    accounts: { main: { token: "token-1" }, backup: { token: "token-2", webhookPath: "/kook/backup" } },
+  });
+  assert.equal(apart.success, true);
+});
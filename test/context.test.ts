@@ -0,0 +1,71 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { OpenClawConfig } from "openclaw/plugin-sdk";
+import { FakeKookServer } from "./fake-server.js";
+import { removeKookAccountContext, resolveKookAccountContext } from "../src/context.js";
+import { KookWSClient } from "../src/ws-client.js";
+
+async function waitUntil(check: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error(`condition not met within ${timeoutMs}ms`);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+test("a token change closes the replaced context's gateway connection", async (t) => {
+  const server = new FakeKookServer();
+  await server.start();
+  const configWithToken = (token: string) =>
+    ({ channels: { kook: { token, apiBaseUrl: server.baseUrl } } }) as unknown as OpenClawConfig;
+
+  const previous = resolveKookAccountContext({ cfg: configWithToken("token-1") });
+  const ws = new KookWSClient({
+    client: previous.client,
+    onEvent: () => {},
+    log: () => {},
+    error: () => {},
+  });
+  t.after(async () => {
+    ws.stop();
+    await server.stop();
+  });
+  previous.wsClient = ws;
+  await ws.start();
+  await server.waitForConnection();
+
+  const next = resolveKookAccountContext({ cfg: configWithToken("token-2") });
+
+  assert.notEqual(next, previous);
+  assert.equal(previous.wsClient, null);
+  await waitUntil(() => !server.connected);
+  await assert.rejects(previous.client.getMe(), /disposed/);
+});
+
+test("removing a deleted account's context closes its gateway connection", async (t) => {
+  const server = new FakeKookServer();
+  await server.start();
+  const cfg = { channels: { kook: { token: "token-3", apiBaseUrl: server.baseUrl } } } as unknown as OpenClawConfig;
+
+  const removed = resolveKookAccountContext({ cfg });
+  const ws = new KookWSClient({
+    client: removed.client,
+    onEvent: () => {},
+    log: () => {},
+    error: () => {},
+  });
+  t.after(async () => {
+    ws.stop();
+    await server.stop();
+  });
+  removed.wsClient = ws;
+  await ws.start();
+  await server.waitForConnection();
+
+  removeKookAccountContext(removed.accountId);
+
+  assert.equal(removed.wsClient, null);
+  await waitUntil(() => !server.connected);
+  await assert.rejects(removed.client.getMe(), /disposed/);
+  assert.notEqual(resolveKookAccountContext({ cfg }), removed);
+});
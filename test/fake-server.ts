@@ -0,0 +1,803 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
+import { deflateSync } from "node:zlib";
+import type { AddressInfo } from "node:net";
+import WebSocket, { WebSocketServer } from "ws";
+import type {
+  KookChannel,
+  KookEventData,
+  KookGuild,
+  KookUser,
+  KookWSSignal,
+} from "../src/types.js";
+
+/**
+ * Offline stand-in for the KOOK REST API and WebSocket gateway.
+ *
+ * Point a `KookClient` at `server.baseUrl` and the gateway URL it hands out
+ * leads back to this server, so the whole plugin can run without network
+ * access. Tests script inbound events, inject faults and then inspect what the
+ * plugin sent:
+ *
+ *   const server = new FakeKookServer();
+ *   await server.start();
+ *   const client = createKookClient("token", { baseUrl: server.baseUrl });
+ *   // ... start KookWSClient / monitor with that client ...
+ *   await server.waitForConnection();
+ *   server.emitEvent({ content: "hello", author_id: "u1" });
+ *   const req = await server.waitForRequest("/message/create");
+ *
+ * Only what `KookClient` and `KookWSClient` use is implemented; unknown REST
+ * paths answer HTTP 404 so gaps show up loudly.
+ */
+
+const SIGNAL = {
+  EVENT: 0,
+  HELLO: 1,
+  PING: 2,
+  PONG: 3,
+  RESUME: 4,
+  RECONNECT: 5,
+  RESUME_ACK: 6,
+} as const;
+
+const GATEWAY_PATH = "/gateway";
+const API_PREFIX = "/api/v3";
+const ASSET_PREFIX = "/assets/";
+
+// Events kept for resume replay
+const EVENT_LOG_LIMIT = 1000;
+
+export type FakeKookRequest = {
+  method: string;
+  /** Path relative to the API base, e.g. `/message/create` */
+  path: string;
+  query: Record<string, string>;
+  /** Parsed JSON body, form fields for multipart uploads, or undefined */
+  body: unknown;
+  authorization?: string;
+  receivedAt: number;
+};
+
+/** Signal the plugin sent over the gateway (PING, RESUME, ...) */
+export type FakeKookGatewaySignal = KookWSSignal & { receivedAt: number };
+
+export type FakeKookRouteHandler = (
+  req: FakeKookRequest,
+) => unknown | Promise<unknown>;
+
+export type FakeKookFault =
+  /** HTTP 429 with KOOK rate-limit headers */
+  | { kind: "rateLimit"; resetAfterSec?: number; bucket?: string; global?: boolean }
+  /** Plain HTTP error, e.g. 500/502 */
+  | { kind: "http"; status: number; body?: string }
+  /** HTTP 200 with a non-zero KOOK `code` */
+  | { kind: "api"; code: number; message?: string }
+  /** Hold the response for `delayMs` before answering normally */
+  | { kind: "delay"; delayMs: number }
+  /** Destroy the socket without answering */
+  | { kind: "disconnect" };
+
+export class FakeKookApiError extends Error {
+  constructor(
+    public readonly code: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "FakeKookApiError";
+  }
+}
+
+export type FakeKookServerOptions = {
+  host?: string;
+  /** 0 (default) picks a free port */
+  port?: number;
+  /** When set, requests with another `Authorization: Bot <token>` get code 401 */
+  token?: string;
+  bot?: Partial<KookUser>;
+  guilds?: KookGuild[];
+  channels?: KookChannel[];
+  users?: KookUser[];
+};
+
+type StoredMessage = {
+  msgId: string;
+  direct: boolean;
+  targetId: string;
+  content: string;
+  type: number;
+  createdAt: number;
+  deleted: boolean;
+  reactions: Array<{ emoji: string; userId: string }>;
+};
+
+type GatewaySession = {
+  sessionId: string;
+  sn: number;
+  events: Array<{ sn: number; data: KookEventData }>;
+};
+
+type Waiter<T> = {
+  match: (item: T) => boolean;
+  resolve: (item: T) => void;
+};
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export class FakeKookServer {
+  /** Every REST call received, in order */
+  readonly requests: FakeKookRequest[] = [];
+  /** Every gateway signal received from the plugin, in order */
+  readonly gatewaySignals: FakeKookGatewaySignal[] = [];
+  readonly bot: KookUser;
+
+  private server: Server | null = null;
+  private wss: WebSocketServer | null = null;
+  private socket: WebSocket | null = null;
+  private socketCompressed = false;
+  private session: GatewaySession | null = null;
+
+  private routes = new Map<string, FakeKookRouteHandler>();
+  private faults = new Map<string, FakeKookFault[]>();
+  private pongsToDrop = 0;
+  private helloCodeOverride: number | null = null;
+
+  private guilds = new Map<string, KookGuild>();
+  private channels = new Map<string, KookChannel>();
+  private users = new Map<string, KookUser>();
+  private messages = new Map<string, StoredMessage>();
+
+  private requestWaiters: Array<Waiter<FakeKookRequest>> = [];
+  private signalWaiters: Array<Waiter<FakeKookGatewaySignal>> = [];
+  private connectionWaiters: Array<() => void> = [];
+
+  constructor(private options: FakeKookServerOptions = {}) {
+    this.bot = {
+      id: "1000000001",
+      username: "FakeBot",
+      identify_num: "0001",
+      online: true,
+      bot: true,
+      ...options.bot,
+    };
+    this.users.set(this.bot.id, this.bot);
+    for (const guild of options.guilds ?? []) this.addGuild(guild);
+    for (const channel of options.channels ?? []) this.addChannel(channel);
+    for (const user of options.users ?? []) this.addUser(user);
+    this.registerDefaultRoutes();
+  }
+
+  // ---- Lifecycle ----
+
+  async start(): Promise<void> {
+    const server = createServer((req, res) => {
+      this.handleHttp(req, res).catch((err) => {
+        if (!res.headersSent) this.respondJson(res, 500, { code: 500, message: String(err), data: {} });
+      });
+    });
+    const wss = new WebSocketServer({ noServer: true });
+
+    server.on("upgrade", (req, socket, head) => {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      if (url.pathname !== GATEWAY_PATH) {
+        socket.destroy();
+        return;
+      }
+      wss.handleUpgrade(req, socket, head, (ws) => this.handleGatewayConnection(ws, url));
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port ?? 0, this.options.host ?? "127.0.0.1", () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    this.wss = wss;
+  }
+
+  async stop(): Promise<void> {
+    this.socket?.terminate();
+    this.socket = null;
+    this.wss?.close();
+    this.wss = null;
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  get port(): number {
+    const address = this.server?.address() as AddressInfo | null;
+    if (!address) throw new Error("FakeKookServer not started");
+    return address.port;
+  }
+
+  get origin(): string {
+    return `http://${this.options.host ?? "127.0.0.1"}:${this.port}`;
+  }
+
+  /** Pass as `baseUrl` to `createKookClient` */
+  get baseUrl(): string {
+    return `${this.origin}${API_PREFIX}`;
+  }
+
+  get gatewayUrl(): string {
+    return `ws://${this.options.host ?? "127.0.0.1"}:${this.port}${GATEWAY_PATH}`;
+  }
+
+  get connected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  get sessionId(): string | undefined {
+    return this.session?.sessionId;
+  }
+
+  /** Forget recorded requests/signals; fixtures and the gateway session are kept */
+  clearRecords(): void {
+    this.requests.length = 0;
+    this.gatewaySignals.length = 0;
+  }
+
+  // ---- Fixtures ----
+
+  addGuild(guild: KookGuild): void {
+    this.guilds.set(guild.id, guild);
+  }
+
+  addChannel(channel: KookChannel): void {
+    this.channels.set(channel.id, channel);
+  }
+
+  addUser(user: KookUser): void {
+    this.users.set(user.id, user);
+  }
+
+  /**
+   * Override (or add) a REST route. The handler's return value becomes `data`;
+   * throw `FakeKookApiError` for a non-zero `code`.
+   */
+  route(method: "GET" | "POST", path: string, handler: FakeKookRouteHandler): void {
+    this.routes.set(`${method} ${path}`, handler);
+  }
+
+  // ---- Fault injection ----
+
+  /** Apply `fault` to the next `times` requests to `path` (or every path with "*") */
+  failNext(path: string, fault: FakeKookFault, times = 1): void {
+    const queue = this.faults.get(path) ?? [];
+    for (let i = 0; i < times; i++) queue.push(fault);
+    this.faults.set(path, queue);
+  }
+
+  /** Ignore the next `count` PINGs instead of answering with PONG */
+  dropPongs(count = Number.POSITIVE_INFINITY): void {
+    this.pongsToDrop = count;
+  }
+
+  /** Answer the next gateway connection with this HELLO code (e.g. 40103, 40107) */
+  failNextHello(code: number): void {
+    this.helloCodeOverride = code;
+  }
+
+  /** Drop the current session so the next resume attempt is refused */
+  expireSession(): void {
+    this.session = null;
+  }
+
+  /** Send a RECONNECT signal; the plugin should discard its session */
+  sendReconnect(code = 41008, err = "Missing params"): void {
+    this.sendSignal({ s: SIGNAL.RECONNECT, d: { code, err } });
+  }
+
+  /** Close the gateway socket from the server side */
+  disconnect(code = 1006): void {
+    if (!this.socket) return;
+    if (code === 1006) {
+      this.socket.terminate();
+    } else {
+      this.socket.close(code);
+    }
+    this.socket = null;
+  }
+
+  // ---- Scripted events ----
+
+  /**
+   * Push an event to the connected plugin. Missing fields get plausible
+   * defaults (a text message in a guild channel). Returns the assigned sn.
+   */
+  emitEvent(event: Partial<KookEventData>, opts?: { sn?: number }): number {
+    const session = this.requireSession();
+    const sn = opts?.sn ?? ++session.sn;
+    session.sn = Math.max(session.sn, sn);
+
+    const data = this.buildEvent(event);
+    session.events.push({ sn, data });
+    if (session.events.length > EVENT_LOG_LIMIT) session.events.shift();
+
+    this.sendSignal({ s: SIGNAL.EVENT, d: data, sn });
+    return sn;
+  }
+
+  /**
+   * Push several events with consecutive sns, delivered in `order`
+   * (indexes into `events`). Indexes left out are never delivered live, but
+   * can still be replayed by a RESUME. Returns the sns in `events` order.
+   */
+  emitEvents(events: Array<Partial<KookEventData>>, opts?: { order?: number[] }): number[] {
+    const session = this.requireSession();
+    const entries = events.map((event) => ({ sn: ++session.sn, data: this.buildEvent(event) }));
+    session.events.push(...entries);
+    while (session.events.length > EVENT_LOG_LIMIT) session.events.shift();
+
+    const order = opts?.order ?? entries.map((_, i) => i);
+    for (const index of order) {
+      const entry = entries[index];
+      if (entry) this.sendSignal({ s: SIGNAL.EVENT, d: entry.data, sn: entry.sn });
+    }
+    return entries.map((entry) => entry.sn);
+  }
+
+  /** Build a text message event, DM if `channelType` is "PERSON" */
+  buildEvent(event: Partial<KookEventData>): KookEventData {
+    const authorId = event.author_id ?? "2000000001";
+    const author = this.users.get(authorId) ?? {
+      id: authorId,
+      username: `user${authorId}`,
+      identify_num: "0001",
+      online: true,
+    };
+    const channelType = event.channel_type ?? "GROUP";
+    const channel = event.target_id ? this.channels.get(event.target_id) : undefined;
+
+    return {
+      channel_type: channelType,
+      type: event.type ?? 9,
+      target_id: event.target_id ?? (channelType === "PERSON" ? this.bot.id : "3000000001"),
+      author_id: authorId,
+      content: event.content ?? "",
+      msg_id: event.msg_id ?? randomUUID(),
+      msg_timestamp: event.msg_timestamp ?? Date.now(),
+      nonce: event.nonce ?? "",
+      ...event,
+      extra: {
+        type: event.type ?? 9,
+        author,
+        ...(channelType === "GROUP"
+          ? { guild_id: channel?.guild_id ?? "4000000001", channel_name: channel?.name ?? "general" }
+          : {}),
+        mention: [],
+        mention_roles: [],
+        mention_all: false,
+        mention_here: false,
+        ...event.extra,
+      },
+    };
+  }
+
+  // ---- Assertions ----
+
+  requestsTo(path: string, method?: string): FakeKookRequest[] {
+    return this.requests.filter((req) => req.path === path && (!method || req.method === method));
+  }
+
+  /** Bodies of every channel and direct message the plugin created */
+  sentMessages(): Array<{ path: string; targetId: string; content: string; type: number; body: Record<string, unknown> }> {
+    return this.requests
+      .filter((req) => req.path === "/message/create" || req.path === "/direct-message/create")
+      .map((req) => {
+        const body = (req.body ?? {}) as Record<string, unknown>;
+        return {
+          path: req.path,
+          targetId: String(body.target_id ?? ""),
+          content: String(body.content ?? ""),
+          type: Number(body.type ?? 1),
+          body,
+        };
+      });
+  }
+
+  /** Resolve with the first request (already received or future) matching path and predicate */
+  waitForRequest(
+    path: string,
+    opts?: { predicate?: (req: FakeKookRequest) => boolean; timeoutMs?: number; after?: number },
+  ): Promise<FakeKookRequest> {
+    const match = (req: FakeKookRequest) =>
+      req.path === path &&
+      req.receivedAt >= (opts?.after ?? 0) &&
+      (!opts?.predicate || opts.predicate(req));
+    const existing = this.requests.find(match);
+    if (existing) return Promise.resolve(existing);
+    return this.waitFor(this.requestWaiters, match, opts?.timeoutMs, `request to ${path}`);
+  }
+
+  /** Resolve with the next gateway signal of type `s` (e.g. 2 = PING, 4 = RESUME) */
+  waitForSignal(s: number, opts?: { timeoutMs?: number }): Promise<FakeKookGatewaySignal> {
+    return this.waitFor(this.signalWaiters, (signal) => signal.s === s, opts?.timeoutMs, `gateway signal s=${s}`);
+  }
+
+  /** Resolve once a gateway connection has completed HELLO */
+  waitForConnection(opts?: { timeoutMs?: number }): Promise<void> {
+    if (this.connected && this.session) return Promise.resolve();
+    const timeoutMs = opts?.timeoutMs ?? 5000;
+    return new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.connectionWaiters = this.connectionWaiters.filter((fn) => fn !== done);
+        reject(new Error(`FakeKookServer: no gateway connection within ${timeoutMs}ms`));
+      }, timeoutMs);
+      const done = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      this.connectionWaiters.push(done);
+    });
+  }
+
+  private waitFor<T>(
+    waiters: Array<Waiter<T>>,
+    match: (item: T) => boolean,
+    timeoutMs = 5000,
+    label: string,
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const waiter: Waiter<T> = {
+        match,
+        resolve: (item) => {
+          clearTimeout(timer);
+          resolve(item);
+        },
+      };
+      const timer = setTimeout(() => {
+        const index = waiters.indexOf(waiter);
+        if (index >= 0) waiters.splice(index, 1);
+        reject(new Error(`FakeKookServer: timed out after ${timeoutMs}ms waiting for ${label}`));
+      }, timeoutMs);
+      waiters.push(waiter);
+    });
+  }
+
+  private notify<T>(waiters: Array<Waiter<T>>, item: T): void {
+    for (const waiter of [...waiters]) {
+      if (!waiter.match(item)) continue;
+      waiters.splice(waiters.indexOf(waiter), 1);
+      waiter.resolve(item);
+    }
+  }
+
+  // ---- Gateway ----
+
+  private handleGatewayConnection(ws: WebSocket, url: URL): void {
+    // One plugin connection at a time, like KOOK
+    this.socket?.terminate();
+    this.socket = ws;
+    this.socketCompressed = url.searchParams.get("compress") !== "0";
+
+    ws.on("message", (raw) => this.handleGatewayMessage(ws, raw));
+    ws.on("close", () => {
+      if (this.socket === ws) this.socket = null;
+    });
+
+    const helloCode = this.helloCodeOverride;
+    this.helloCodeOverride = null;
+    if (helloCode !== null) {
+      this.sendSignal({ s: SIGNAL.HELLO, d: { code: helloCode } }, ws);
+      ws.close();
+      return;
+    }
+
+    if (url.searchParams.get("resume") === "1") {
+      const sessionId = url.searchParams.get("session_id");
+      const sn = Number(url.searchParams.get("sn") ?? 0);
+      if (!this.session || this.session.sessionId !== sessionId) {
+        this.sendSignal({ s: SIGNAL.HELLO, d: { code: 40107 } }, ws);
+        ws.close();
+        return;
+      }
+      this.sendSignal({ s: SIGNAL.HELLO, d: { code: 0, session_id: this.session.sessionId } }, ws);
+      this.replayAfter(sn, ws);
+    } else {
+      this.session = { sessionId: randomUUID(), sn: 0, events: [] };
+      this.sendSignal({ s: SIGNAL.HELLO, d: { code: 0, session_id: this.session.sessionId } }, ws);
+    }
+
+    const waiters = this.connectionWaiters;
+    this.connectionWaiters = [];
+    for (const done of waiters) done();
+  }
+
+  private handleGatewayMessage(ws: WebSocket, raw: WebSocket.RawData): void {
+    let signal: KookWSSignal;
+    try {
+      signal = JSON.parse(raw.toString()) as KookWSSignal;
+    } catch {
+      return;
+    }
+
+    const recorded: FakeKookGatewaySignal = { ...signal, receivedAt: Date.now() };
+    this.gatewaySignals.push(recorded);
+    this.notify(this.signalWaiters, recorded);
+
+    if (signal.s === SIGNAL.PING) {
+      if (this.pongsToDrop > 0) {
+        this.pongsToDrop--;
+        return;
+      }
+      this.sendSignal({ s: SIGNAL.PONG, d: {} }, ws);
+      return;
+    }
+
+    if (signal.s === SIGNAL.RESUME) {
+      // KOOK documents `{ s: 4, sn }`; accept `{ s: 4, d: { sn } }` as well
+      const d = signal.d as { sn?: number } | undefined;
+      const sn = signal.sn ?? d?.sn ?? 0;
+      this.replayAfter(sn, ws);
+      this.sendSignal({ s: SIGNAL.RESUME_ACK, d: { session_id: this.session?.sessionId } }, ws);
+    }
+  }
+
+  private replayAfter(sn: number, ws: WebSocket): void {
+    for (const entry of this.session?.events ?? []) {
+      if (entry.sn > sn) this.sendSignal({ s: SIGNAL.EVENT, d: entry.data, sn: entry.sn }, ws);
+    }
+  }
+
+  private requireSession(): GatewaySession {
+    if (!this.session) throw new Error("FakeKookServer: no gateway session (wait for a connection first)");
+    return this.session;
+  }
+
+  private sendSignal(signal: KookWSSignal, ws: WebSocket | null = this.socket): void {
+    if (!ws || ws.readyState !== WebSocket.OPEN) return;
+    const text = JSON.stringify(signal);
+    ws.send(this.socketCompressed ? deflateSync(text) : text);
+  }
+
+  // ---- REST ----
+
+  private async handleHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    if (url.pathname.startsWith(ASSET_PREFIX)) {
+      res.statusCode = 200;
+      res.setHeader("Content-Type", "application/octet-stream");
+      res.end(Buffer.from(url.pathname));
+      return;
+    }
+
+    if (!url.pathname.startsWith(API_PREFIX)) {
+      this.respondJson(res, 404, { code: 404, message: "not found", data: {} });
+      return;
+    }
+
+    const path = url.pathname.slice(API_PREFIX.length);
+    const request: FakeKookRequest = {
+      method: req.method ?? "GET",
+      path,
+      query: Object.fromEntries(url.searchParams),
+      body: await this.readBody(req),
+      authorization: req.headers.authorization,
+      receivedAt: Date.now(),
+    };
+    this.requests.push(request);
+    this.notify(this.requestWaiters, request);
+
+    const fault = this.takeFault(path);
+    if (fault) {
+      switch (fault.kind) {
+        case "rateLimit": {
+          const resetAfterSec = fault.resetAfterSec ?? 1;
+          res.setHeader("X-Rate-Limit-Limit", "120");
+          res.setHeader("X-Rate-Limit-Remaining", "0");
+          res.setHeader("X-Rate-Limit-Reset", String(resetAfterSec));
+          res.setHeader("X-Rate-Limit-Bucket", fault.bucket ?? path.slice(1));
+          if (fault.global) res.setHeader("X-Rate-Limit-Global", "1");
+          this.respondJson(res, 429, { code: 429, message: "Too Many Requests", data: {} });
+          return;
+        }
+        case "http":
+          res.statusCode = fault.status;
+          res.end(fault.body ?? "");
+          return;
+        case "api":
+          this.respondJson(res, 200, { code: fault.code, message: fault.message ?? "error", data: {} });
+          return;
+        case "delay":
+          await sleep(fault.delayMs);
+          break;
+        case "disconnect":
+          req.socket.destroy();
+          return;
+      }
+    }
+
+    if (this.options.token && request.authorization !== `Bot ${this.options.token}`) {
+      this.respondJson(res, 401, { code: 401, message: "你的用户凭证不正确", data: {} });
+      return;
+    }
+
+    const handler = this.routes.get(`${request.method} ${path}`);
+    if (!handler) {
+      this.respondJson(res, 404, { code: 404, message: `FakeKookServer: no route for ${request.method} ${path}`, data: {} });
+      return;
+    }
+
+    try {
+      const data = await handler(request);
+      res.setHeader("X-Rate-Limit-Limit", "120");
+      res.setHeader("X-Rate-Limit-Remaining", "119");
+      res.setHeader("X-Rate-Limit-Reset", "60");
+      res.setHeader("X-Rate-Limit-Bucket", path.slice(1));
+      this.respondJson(res, 200, { code: 0, message: "操作成功", data: data ?? [] });
+    } catch (err) {
+      const code = err instanceof FakeKookApiError ? err.code : 500;
+      this.respondJson(res, 200, { code, message: String((err as Error).message ?? err), data: {} });
+    }
+  }
+
+  private takeFault(path: string): FakeKookFault | undefined {
+    for (const key of [path, "*"]) {
+      const queue = this.faults.get(key);
+      if (queue?.length) return queue.shift();
+    }
+    return undefined;
+  }
+
+  private async readBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    if (chunks.length === 0) return undefined;
+    const raw = Buffer.concat(chunks);
+    const contentType = req.headers["content-type"] ?? "";
+
+    if (contentType.startsWith("application/json")) {
+      try {
+        return JSON.parse(raw.toString("utf-8"));
+      } catch {
+        return raw.toString("utf-8");
+      }
+    }
+
+    if (contentType.startsWith("multipart/form-data")) {
+      const form = await new Response(raw, { headers: { "content-type": contentType } }).formData();
+      const fields: Record<string, unknown> = {};
+      for (const [key, value] of form.entries()) {
+        fields[key] = typeof value === "string"
+          ? value
+          : { filename: (value as File).name, size: (value as File).size };
+      }
+      return fields;
+    }
+
+    return raw.toString("utf-8");
+  }
+
+  private respondJson(res: ServerResponse, status: number, body: unknown): void {
+    res.statusCode = status;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify(body));
+  }
+
+  // ---- Default routes ----
+
+  private registerDefaultRoutes(): void {
+    this.route("GET", "/gateway/index", (req) => ({
+      url: `${this.gatewayUrl}?compress=${req.query.compress ?? "1"}`,
+    }));
+
+    // Users
+    this.route("GET", "/user/me", () => this.bot);
+    this.route("GET", "/user/view", (req) => {
+      const user = this.users.get(req.query.user_id ?? "");
+      if (!user) throw new FakeKookApiError(40000, "用户不存在");
+      return user;
+    });
+
+    // Guilds & channels
+    this.route("GET", "/guild/list", () => this.page([...this.guilds.values()]));
+    this.route("GET", "/guild/view", (req) => {
+      const guild = this.guilds.get(req.query.guild_id ?? "");
+      if (!guild) throw new FakeKookApiError(40000, "服务器不存在");
+      return guild;
+    });
+    this.route("GET", "/guild/user-list", () => this.page([...this.users.values()]));
+    this.route("GET", "/channel/list", (req) =>
+      this.page([...this.channels.values()].filter((channel) => channel.guild_id === req.query.guild_id)),
+    );
+    this.route("GET", "/channel/view", (req) => {
+      const channel = this.channels.get(req.query.target_id ?? "");
+      if (!channel) throw new FakeKookApiError(40000, "频道不存在");
+      return channel;
+    });
+
+    // Messages
+    for (const direct of [false, true]) {
+      const prefix = direct ? "/direct-message" : "/message";
+      this.route("POST", `${prefix}/create`, (req) => this.createMessage(req, direct));
+      this.route("POST", `${prefix}/update`, (req) => {
+        const body = req.body as { msg_id?: string; content?: string };
+        const message = this.requireMessage(body.msg_id);
+        message.content = body.content ?? message.content;
+        return [];
+      });
+      this.route("POST", `${prefix}/delete`, (req) => {
+        const message = this.requireMessage((req.body as { msg_id?: string }).msg_id);
+        message.deleted = true;
+        return [];
+      });
+      this.route("POST", `${prefix}/add-reaction`, (req) => {
+        const body = req.body as { msg_id?: string; emoji?: string };
+        this.requireMessage(body.msg_id).reactions.push({ emoji: String(body.emoji), userId: this.bot.id });
+        return [];
+      });
+      this.route("POST", `${prefix}/delete-reaction`, (req) => {
+        const body = req.body as { msg_id?: string; emoji?: string; user_id?: string };
+        const message = this.requireMessage(body.msg_id);
+        const userId = body.user_id ?? this.bot.id;
+        message.reactions = message.reactions.filter(
+          (reaction) => reaction.emoji !== body.emoji || reaction.userId !== userId,
+        );
+        return [];
+      });
+    }
+    this.route("GET", "/message/view", (req) => this.toMessageView(this.requireMessage(req.query.msg_id)));
+    this.route("GET", "/message/list", (req) => ({
+      items: [...this.messages.values()]
+        .filter((message) => !message.direct && !message.deleted && message.targetId === req.query.target_id)
+        .map((message) => this.toMessageView(message)),
+    }));
+
+    // Media
+    this.route("POST", "/asset/create", (req) => {
+      const file = (req.body as { file?: { filename?: string } } | undefined)?.file;
+      const name = encodeURIComponent(file?.filename ?? "file");
+      return { url: `${this.origin}${ASSET_PREFIX}${randomUUID()}/${name}` };
+    });
+  }
+
+  private createMessage(req: FakeKookRequest, direct: boolean): { msg_id: string; msg_timestamp: number } {
+    const body = (req.body ?? {}) as { target_id?: string; content?: string; type?: number };
+    if (!body.target_id) throw new FakeKookApiError(40000, "target_id 必填");
+    if (!body.content) throw new FakeKookApiError(40000, "content 必填");
+
+    const message: StoredMessage = {
+      msgId: randomUUID(),
+      direct,
+      targetId: body.target_id,
+      content: body.content,
+      type: body.type ?? 1,
+      createdAt: Date.now(),
+      deleted: false,
+      reactions: [],
+    };
+    this.messages.set(message.msgId, message);
+    return { msg_id: message.msgId, msg_timestamp: message.createdAt };
+  }
+
+  private requireMessage(msgId: string | undefined): StoredMessage {
+    const message = msgId ? this.messages.get(msgId) : undefined;
+    if (!message || message.deleted) throw new FakeKookApiError(40000, "消息不存在");
+    return message;
+  }
+
+  private toMessageView(message: StoredMessage): Record<string, unknown> {
+    return {
+      id: message.msgId,
+      type: message.type,
+      content: message.content,
+      ...(message.direct ? {} : { channel_id: message.targetId }),
+      author: this.bot,
+      create_at: message.createdAt,
+      reactions: message.reactions,
+    };
+  }
+
+  private page<T>(items: T[]): { items: T[]; meta: { page: number; page_total: number; page_size: number; total: number } } {
+    return { items, meta: { page: 1, page_total: 1, page_size: items.length, total: items.length } };
+  }
+}
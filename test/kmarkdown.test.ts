@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_MENTION_POLICY, sanitizeCardMentions } from "../src/kmarkdown.js";
+import { buildButtonCard, serializeCards } from "../src/card-builder.js";
+
+test("forbidden mention tokens are escaped in every kmarkdown element of a card", () => {
+  const cards = serializeCards([
+    ...buildButtonCard("hi (met)all(met) and (met)123(met)", [[{ text: "OK", value: "ok" }]]),
+    {
+      type: "card",
+      modules: [
+        { type: "context", elements: [{ type: "kmarkdown", content: "(rol)42(rol)" }] },
+        { type: "header", text: { type: "plain-text", content: "(met)all(met)" } },
+      ],
+    },
+  ]);
+
+  const sanitized = JSON.parse(sanitizeCardMentions(cards, DEFAULT_MENTION_POLICY));
+
+  assert.equal(sanitized[0].modules[0].text.content, "hi \\(met\\)all\\(met\\) and (met)123(met)");
+  assert.equal(sanitized[1].modules[0].elements[0].content, "\\(rol\\)42\\(rol\\)");
+  // KOOK does not render tokens in plain text
+  assert.equal(sanitized[1].modules[1].text.content, "(met)all(met)");
+});
+
+test("content that is not card JSON is left alone", () => {
+  assert.equal(sanitizeCardMentions("[link](https://example.com)"), "[link](https://example.com)");
+});
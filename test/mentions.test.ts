@@ -0,0 +1,137 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import type { OpenClawConfig } from "openclaw/plugin-sdk";
+import { FakeKookServer } from "./fake-server.js";
+import {
+  normalizeKookInboundMentions,
+  resolveOutboundMentions,
+  type KookMentionDirectory,
+} from "../src/mentions.js";
+import { resolveKookAccountContext } from "../src/context.js";
+import type { KookChannel, KookEventExtra, KookUser } from "../src/types.js";
+
+const members: KookUser[] = [
+  { id: "3000000001", username: "alice", identify_num: "1234", online: true },
+  { id: "3000000002", username: "alice", identify_num: "5678", online: true },
+  { id: "3000000003", username: "bobby", nickname: "Bob", identify_num: "0001", online: true },
+];
+
+const channels: KookChannel[] = [
+  { id: "2000000001", name: "general", guild_id: "1000000001" },
+  { id: "2000000002", name: "Support", guild_id: "1000000001", is_category: true },
+  { id: "2000000003", name: "support", guild_id: "1000000001" },
+];
+
+const directory: KookMentionDirectory = {
+  knownMember: (name) => (name.toLowerCase() === "carol" ? "3000000004" : undefined),
+  findMembers: async () => members,
+  listChannels: async () => channels,
+};
+
+const all = { users: true, channels: true, everyone: true };
+
+const outboundCases: Array<{ name: string; text: string; opts?: Partial<typeof all>; expected: string }> = [
+  { name: "nickname", text: "thanks @Bob!", expected: "thanks (met)3000000003(met)!" },
+  { name: "username, any case", text: "@BOBBY hi", expected: "(met)3000000003(met) hi" },
+  { name: "name seen recently", text: "@Carol", expected: "(met)3000000004(met)" },
+  { name: "ambiguous name stays plain", text: "@alice look", expected: "@alice look" },
+  { name: "unknown name stays plain", text: "@nobody", expected: "@nobody" },
+  { name: "username#identify_num", text: "@alice#1234 look", expected: "(met)3000000001(met) look" },
+  { name: "second account with the same name", text: "@alice#5678", expected: "(met)3000000002(met)" },
+  { name: "wrong identify_num", text: "@alice#9999", expected: "@alice#9999" },
+  { name: "email address", text: "mail me at me@Bob.com", expected: "mail me at me@Bob.com" },
+  { name: "users off", text: "@Bob", opts: { users: false }, expected: "@Bob" },
+  { name: "@everyone allowed", text: "@everyone meeting", expected: "(met)all(met) meeting" },
+  { name: "@all allowed", text: "@all", expected: "(met)all(met)" },
+  { name: "@here allowed", text: "@here", expected: "(met)here(met)" },
+  { name: "@everyone not allowed", text: "@everyone meeting", opts: { everyone: false }, expected: "@everyone meeting" },
+  { name: "@here not allowed", text: "@here", opts: { everyone: false }, expected: "@here" },
+  { name: "@everyone is not looked up as a member", text: "@everyone", opts: { everyone: false, users: true }, expected: "@everyone" },
+  { name: "channel", text: "see #general", expected: "see (chn)2000000001(chn)" },
+  { name: "channel, not its category", text: "ask in #Support", expected: "ask in (chn)2000000003(chn)" },
+  { name: "channels off", text: "see #general", opts: { channels: false }, expected: "see #general" },
+  { name: "code span", text: "run `@Bob #general` then @Bob", expected: "run `@Bob #general` then (met)3000000003(met)" },
+  { name: "code block", text: "```\n@Bob\n#general\n```", expected: "```\n@Bob\n#general\n```" },
+  { name: "link target", text: "[docs](https://example.com/#general)", expected: "[docs](https://example.com/#general)" },
+  { name: "bare URL", text: "https://example.com/@Bob#general", expected: "https://example.com/@Bob#general" },
+  {
+    name: "existing mention token",
+    text: "(met)3000000003(met) and @Bob",
+    expected: "(met)3000000003(met) and (met)3000000003(met)",
+  },
+  { name: "existing @everyone token", text: "(met)all(met)", opts: { everyone: false }, expected: "(met)all(met)" },
+  { name: "existing channel token", text: "(chn)2000000001(chn)", expected: "(chn)2000000001(chn)" },
+];
+
+for (const { name, text, opts, expected } of outboundCases) {
+  test(`outbound mention: ${name}`, async () => {
+    assert.equal(await resolveOutboundMentions(text, directory, { ...all, ...opts }), expected);
+  });
+}
+
+// Inbound lookups go through the account's client, so they are served by a fake KOOK
+const server = new FakeKookServer({ users: members, channels });
+before(async () => {
+  await server.start();
+  server.route("GET", "/guild-role/list", () => ({
+    items: [{ role_id: 7, name: "Moderator" }],
+    meta: { page: 1, page_total: 1, page_size: 100, total: 1 },
+  }));
+});
+after(() => server.stop());
+
+const inboundCases: Array<{
+  name: string;
+  content: string;
+  guildId?: string;
+  kmarkdown?: KookEventExtra["kmarkdown"];
+  expected: string;
+}> = [
+  {
+    name: "member named in mention_part",
+    content: "(met)3000000001(met) hi",
+    guildId: "1000000001",
+    kmarkdown: { raw_content: "", mention_part: [{ id: "3000000001", username: "Alice" }] },
+    expected: "@Alice hi",
+  },
+  {
+    name: "mention_part wins over the member lookup",
+    content: "(met)3000000003(met)",
+    guildId: "1000000001",
+    kmarkdown: { raw_content: "", mention_part: [{ id: "3000000003", username: "bobby" }] },
+    expected: "@bobby",
+  },
+  { name: "member looked up by nickname", content: "(met)3000000003(met)", guildId: "1000000001", expected: "@Bob" },
+  { name: "unknown member keeps its ID", content: "(met)3000000009(met)", guildId: "1000000001", expected: "@3000000009" },
+  { name: "no guild to look members up in", content: "(met)3000000001(met)", expected: "@3000000001" },
+  { name: "everyone", content: "(met)all(met) meeting", expected: "@everyone meeting" },
+  { name: "here", content: "(met)here(met)", expected: "@here" },
+  {
+    name: "role named in mention_role_part",
+    content: "(rol)8(rol)",
+    guildId: "1000000001",
+    kmarkdown: { raw_content: "", mention_role_part: [{ role_id: 8, name: "Support lead" }] },
+    expected: "@Support lead",
+  },
+  { name: "role looked up", content: "(rol)7(rol)", guildId: "1000000001", expected: "@Moderator" },
+  { name: "unknown role keeps its ID", content: "(rol)9(rol)", guildId: "1000000001", expected: "@role:9" },
+  {
+    name: "channel named in channel_part",
+    content: "see (chn)2000000001(chn)",
+    kmarkdown: { raw_content: "", channel_part: [{ id: "2000000001", name: "general" }] },
+    expected: "see #general",
+  },
+  { name: "channel looked up", content: "(chn)2000000003(chn)", guildId: "1000000001", expected: "#support" },
+  { name: "unknown channel keeps its ID", content: "(chn)2000000009(chn)", guildId: "1000000001", expected: "#2000000009" },
+  { name: "escaped punctuation", content: "\\(not a token\\)", expected: "(not a token)" },
+];
+
+for (const { name, content, guildId, kmarkdown, expected } of inboundCases) {
+  test(`inbound mention: ${name}`, async () => {
+    const context = resolveKookAccountContext({
+      cfg: { channels: { kook: { token: "token", apiBaseUrl: server.baseUrl } } } as unknown as OpenClawConfig,
+    });
+    context.caches.guildDirectories.clear();
+    assert.equal(await normalizeKookInboundMentions({ context, guildId, content, kmarkdown }), expected);
+  });
+}
@@ -0,0 +1,147 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { HistoryEntry, OpenClawConfig } from "openclaw/plugin-sdk";
+import {
+  holdKookDmMessage,
+  mergeKookHeldDmMessages,
+  replyWithKookPairingCode,
+  takeKookHeldDmMessages,
+} from "../src/pairing.js";
+import { resolveKookAccountContext } from "../src/context.js";
+import type { KookDryRunReply } from "../src/reply-dispatcher.js";
+import type { KookMessageContext } from "../src/types.js";
+
+const cfg = { channels: { kook: { token: "token" } } } as unknown as OpenClawConfig;
+
+function freshContext() {
+  const context = resolveKookAccountContext({ cfg });
+  context.caches.heldMessages.clear();
+  context.caches.pairingReplies.clear();
+  return context;
+}
+
+function dm(senderId: string, n: number): KookMessageContext {
+  return {
+    channelId: senderId,
+    messageId: `${senderId}-msg-${n}`,
+    senderId,
+    senderName: `name-${senderId}`,
+    channelType: "PERSON",
+    messageType: 9,
+    mentionedBot: false,
+    mentionAll: false,
+    mentionHere: false,
+    content: `message ${n}`,
+  };
+}
+
+test("only a sender's latest 20 held messages are kept", () => {
+  const context = freshContext();
+  for (let n = 1; n <= 25; n++) holdKookDmMessage(context, dm("3000000001", n));
+
+  const held = takeKookHeldDmMessages(context, "3000000001");
+
+  assert.equal(held.length, 20);
+  assert.equal(held[0]!.messageId, "3000000001-msg-6");
+  assert.equal(held[19]!.messageId, "3000000001-msg-25");
+  assert.equal(held[19]!.body, "name-3000000001: message 25");
+  // Handed out once
+  assert.deepEqual(takeKookHeldDmMessages(context, "3000000001"), []);
+});
+
+test("messages are held for the 100 most recent senders", () => {
+  const context = freshContext();
+  for (let i = 0; i < 100; i++) holdKookDmMessage(context, dm(`sender-${i}`, 1));
+  // A new message makes sender-0 the most recent again
+  holdKookDmMessage(context, dm("sender-0", 2));
+  holdKookDmMessage(context, dm("sender-100", 1));
+
+  const { heldMessages } = context.caches;
+  assert.equal(heldMessages.size, 100);
+  assert.equal(heldMessages.has("sender-1"), false);
+  assert.equal(heldMessages.get("sender-0")?.length, 2);
+  assert.equal(heldMessages.has("sender-100"), true);
+});
+
+test("a sender gets one pairing reply per 10 minutes", async () => {
+  const context = freshContext();
+  const replies: KookDryRunReply[] = [];
+  const reply = (n: number) =>
+    replyWithKookPairingCode({
+      cfg,
+      context,
+      ctx: dm("3000000001", n),
+      log: () => {},
+      dryRun: (entry) => replies.push(entry),
+    });
+
+  await reply(1);
+  await reply(2);
+  assert.equal(replies.length, 1);
+  assert.deepEqual(
+    { kind: replies[0]!.kind, chatId: replies[0]!.chatId, channelType: replies[0]!.channelType },
+    { kind: "pairing", chatId: "3000000001", channelType: "PERSON" },
+  );
+
+  // Another sender is not held back by the first one's cooldown
+  await replyWithKookPairingCode({
+    cfg,
+    context,
+    ctx: dm("3000000002", 1),
+    log: () => {},
+    dryRun: (entry) => replies.push(entry),
+  });
+  assert.equal(replies.length, 2);
+
+  // Move the first reply just past the cooldown
+  context.caches.pairingReplies.set("3000000001", Date.now() - 10 * 60 * 1000);
+  await reply(3);
+  assert.equal(replies.length, 3);
+});
+
+test("held messages follow the recent history in the first turn after pairing", () => {
+  const context = freshContext();
+  holdKookDmMessage(context, dm("3000000001", 1));
+  holdKookDmMessage(context, dm("3000000001", 2));
+  const heldMessages = takeKookHeldDmMessages(context, "3000000001");
+
+  const entry = (body: string): HistoryEntry => ({ sender: "3000000001", body, timestamp: 0 });
+  const chatHistories = new Map([["kook:3000000001", [entry("old 1"), entry("old 2"), entry("old 3")]]]);
+
+  const merged = mergeKookHeldDmMessages({
+    chatHistories,
+    historyKey: "kook:3000000001",
+    historyLimit: 2,
+    heldMessages,
+  });
+  assert.deepEqual(
+    merged.historyMap?.get("kook:3000000001")?.map((item) => item.body),
+    ["old 2", "old 3", "name-3000000001: message 1", "name-3000000001: message 2"],
+  );
+  assert.equal(merged.limit, 4);
+  // The shared history itself is left alone
+  assert.equal(chatHistories.get("kook:3000000001")?.length, 3);
+
+  // With DM history off (the default), the held messages are still shown
+  const withoutHistory = mergeKookHeldDmMessages({
+    chatHistories,
+    historyKey: "kook:3000000001",
+    historyLimit: 0,
+    heldMessages,
+  });
+  assert.deepEqual(
+    withoutHistory.historyMap?.get("kook:3000000001")?.map((item) => item.body),
+    ["name-3000000001: message 1", "name-3000000001: message 2"],
+  );
+  assert.equal(withoutHistory.limit, 2);
+
+  // Later turns have nothing held and use the history as is
+  const later = mergeKookHeldDmMessages({
+    chatHistories,
+    historyKey: "kook:3000000001",
+    historyLimit: 2,
+    heldMessages: takeKookHeldDmMessages(context, "3000000001"),
+  });
+  assert.equal(later.historyMap, chatHistories);
+  assert.equal(later.limit, 2);
+});
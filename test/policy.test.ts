@@ -0,0 +1,84 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  isKookConversationEnabled,
+  isKookGroupActionAllowed,
+  isKookGuildAllowed,
+  resolveKookModeratorRoles,
+} from "../src/policy.js";
+import { KookConfigSchema } from "../src/config-schema.js";
+
+const cfg = KookConfigSchema.parse({
+  groups: {
+    "1000000001": {
+      tools: { allow: ["roles"] },
+      moderatorRoles: ["Moderator"],
+      channels: {
+        "2000000001": {
+          tools: { deny: ["role-grant"] },
+          moderatorRoles: ["Support lead"],
+        },
+      },
+    },
+  },
+});
+
+test("a channel tools override denies an action its guild allows", () => {
+  const action = { cfg, groupId: "1000000001", action: "role-grant", gate: "roles" };
+
+  assert.equal(isKookGroupActionAllowed(action), true);
+  assert.equal(isKookGroupActionAllowed({ ...action, channelId: "2000000002" }), true);
+  assert.equal(isKookGroupActionAllowed({ ...action, channelId: "2000000001" }), false);
+});
+
+test("a channel's moderator roles replace its guild's", () => {
+  assert.deepEqual(resolveKookModeratorRoles({ cfg, groupId: "1000000001" }), ["Moderator"]);
+  assert.deepEqual(
+    resolveKookModeratorRoles({ cfg, groupId: "1000000001", channelId: "2000000001" }),
+    ["Support lead"],
+  );
+});
+
+test("welcomes and other bot-initiated posts respect the group access settings", () => {
+  const allowlist = KookConfigSchema.parse({
+    groupPolicy: "allowlist",
+    groups: {
+      "1000000001": { channels: { "2000000001": { enabled: false } } },
+      "1000000002": { enabled: false },
+    },
+  });
+
+  assert.equal(isKookGuildAllowed({ cfg: allowlist, groupId: "1000000001" }), true);
+  assert.equal(isKookGuildAllowed({ cfg: allowlist, groupId: "1000000001", channelId: "2000000001" }), false);
+  assert.equal(isKookGuildAllowed({ cfg: allowlist, groupId: "1000000002" }), false);
+  assert.equal(isKookGuildAllowed({ cfg: allowlist, groupId: "1000000003" }), false);
+
+  const open = KookConfigSchema.parse({ groupPolicy: "open" });
+  assert.equal(isKookGuildAllowed({ cfg: open, groupId: "1000000003" }), true);
+  const disabled = KookConfigSchema.parse({ groupPolicy: "disabled" });
+  assert.equal(isKookGuildAllowed({ cfg: disabled, groupId: "1000000003" }), false);
+});
+
+test("enabled: false on a channel, guild or DM entry turns the conversation off", () => {
+  const config = KookConfigSchema.parse({
+    groups: { "1000000001": { channels: { "2000000001": { enabled: false } } } },
+    dms: { "3000000001": { enabled: false } },
+  });
+  const group = {
+    channelId: "2000000001",
+    messageId: "msg-1",
+    senderId: "3000000002",
+    guildId: "1000000001",
+    channelType: "GROUP" as const,
+    messageType: 255,
+    mentionedBot: true,
+    mentionAll: false,
+    mentionHere: false,
+    content: "",
+  };
+
+  assert.equal(isKookConversationEnabled({ cfg: config, ctx: group }), false);
+  assert.equal(isKookConversationEnabled({ cfg: config, ctx: { ...group, channelId: "2000000002" } }), true);
+  const dm = { ...group, channelId: "3000000001", senderId: "3000000001", guildId: undefined };
+  assert.equal(isKookConversationEnabled({ cfg: config, ctx: { ...dm, channelType: "PERSON" } }), false);
+});
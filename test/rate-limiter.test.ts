@@ -0,0 +1,126 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { KookRateLimiter, type KookRequestPriority } from "../src/rate-limiter.js";
+
+function rateLimitHeaders(fields: { bucket?: string; remaining?: number; resetSec?: number; global?: boolean }): Headers {
+  const headers = new Headers();
+  if (fields.bucket !== undefined) headers.set("X-Rate-Limit-Bucket", fields.bucket);
+  if (fields.remaining !== undefined) headers.set("X-Rate-Limit-Remaining", String(fields.remaining));
+  if (fields.resetSec !== undefined) headers.set("X-Rate-Limit-Reset", String(fields.resetSec));
+  if (fields.global) headers.set("X-Rate-Limit-Global", "1");
+  return headers;
+}
+
+/** A task that stays in flight until `release` is called */
+function blockingTask() {
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  return { task: () => released, release };
+}
+
+test("routes that share a bucket wait for it together", async () => {
+  const limiter = new KookRateLimiter();
+  // KOOK names the shared bucket in the headers of each route's first response
+  limiter.update("/message/create", rateLimitHeaders({ bucket: "message", remaining: 5, resetSec: 60 }), 200);
+  limiter.update("/message/update", rateLimitHeaders({ bucket: "message", remaining: 5, resetSec: 60 }), 200);
+  limiter.update("/message/create", rateLimitHeaders({ bucket: "message", remaining: 0, resetSec: 0.3 }), 200);
+
+  const started: string[] = [];
+  const startedAt = Date.now();
+  let updateStartedAfterMs = 0;
+  await Promise.all([
+    limiter.schedule("/message/update", "default", async () => {
+      updateStartedAfterMs = Date.now() - startedAt;
+      started.push("/message/update");
+    }),
+    limiter.schedule("/channel/list", "default", async () => {
+      started.push("/channel/list");
+    }),
+  ]);
+
+  assert.deepEqual(started, ["/channel/list", "/message/update"]);
+  assert.ok(updateStartedAfterMs >= 250, `started after ${updateStartedAfterMs}ms`);
+});
+
+test("a global 429 holds every route until it resets", async () => {
+  const limiter = new KookRateLimiter();
+  limiter.update(
+    "/message/create",
+    rateLimitHeaders({ bucket: "message/create", remaining: 0, resetSec: 0.3, global: true }),
+    429,
+  );
+
+  const startedAt = Date.now();
+  let startedAfterMs = 0;
+  await limiter.schedule("/guild/list", "final", async () => {
+    startedAfterMs = Date.now() - startedAt;
+  });
+
+  assert.ok(startedAfterMs >= 250, `started after ${startedAfterMs}ms`);
+});
+
+test("queued requests start by priority, first come first served within one", async () => {
+  const limiter = new KookRateLimiter({ maxConcurrent: 1 });
+  const blocker = blockingTask();
+  const inFlight = limiter.schedule("/message/create", "default", blocker.task);
+
+  const started: string[] = [];
+  const queue = (priority: KookRequestPriority, label: string) =>
+    limiter.schedule("/message/update", priority, async () => {
+      started.push(label);
+    });
+  const queued = [
+    queue("typing", "typing"),
+    queue("stream", "stream-1"),
+    queue("default", "default"),
+    queue("stream", "stream-2"),
+    queue("final", "final"),
+  ];
+  assert.equal(limiter.pending, 5);
+
+  blocker.release();
+  await Promise.all([inFlight, ...queued]);
+
+  assert.deepEqual(started, ["final", "default", "stream-1", "stream-2", "typing"]);
+});
+
+test("aborting a queued request rejects it without running the task", async () => {
+  const limiter = new KookRateLimiter({ maxConcurrent: 1 });
+  const blocker = blockingTask();
+  const inFlight = limiter.schedule("/message/create", "default", blocker.task);
+
+  const controller = new AbortController();
+  let ran = false;
+  const queued = limiter.schedule(
+    "/message/update",
+    "stream",
+    async () => {
+      ran = true;
+    },
+    controller.signal,
+  );
+  controller.abort(new Error("reply finished"));
+
+  await assert.rejects(queued, /reply finished/);
+  assert.equal(limiter.pending, 0);
+  blocker.release();
+  await inFlight;
+  assert.equal(ran, false);
+});
+
+test("dispose rejects queued requests and refuses new ones", async () => {
+  const limiter = new KookRateLimiter({ maxConcurrent: 1 });
+  const blocker = blockingTask();
+  const inFlight = limiter.schedule("/message/create", "default", blocker.task);
+  const queued = limiter.schedule("/message/update", "final", async () => {});
+
+  limiter.dispose();
+
+  await assert.rejects(queued, /disposed/);
+  await assert.rejects(limiter.schedule("/channel/list", "default", async () => {}), /disposed/);
+  // A request already sent is left to finish
+  blocker.release();
+  await inFlight;
+});
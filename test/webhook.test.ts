@@ -0,0 +1,138 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createCipheriv, randomBytes } from "node:crypto";
+import { deflateSync } from "node:zlib";
+import { KookWebhookServer } from "../src/webhook.js";
+import type { KookEventData } from "../src/types.js";
+
+const VERIFY_TOKEN = "verify-token";
+const ENCRYPT_KEY = "encrypt-key";
+
+async function startServer(t: { after: (fn: () => void) => void }, encryptKey?: string) {
+  const events: KookEventData[] = [];
+  const errors: unknown[][] = [];
+  const server = new KookWebhookServer({
+    port: 0,
+    host: "127.0.0.1",
+    path: "/kook/webhook",
+    verifyToken: VERIFY_TOKEN,
+    encryptKey,
+    onEvent: (event) => events.push(event),
+    log: () => {},
+    error: (...args) => errors.push(args),
+  });
+  await server.start();
+  t.after(() => server.stop());
+
+  const post = (body: Buffer | string) =>
+    fetch(`http://127.0.0.1:${server.port}/kook/webhook`, {
+      method: "POST",
+      body: typeof body === "string" ? body : new Uint8Array(body),
+    });
+  return { events, errors, post };
+}
+
+/** The inverse of decryptKookPayload: base64(iv + base64(AES-256-CBC ciphertext)) */
+function encrypt(text: string, encryptKey: string): string {
+  const key = Buffer.alloc(32);
+  Buffer.from(encryptKey, "utf-8").copy(key, 0, 0, 32);
+  const iv = randomBytes(16);
+  const cipher = createCipheriv("aes-256-cbc", key, iv);
+  const cipherText = Buffer.concat([cipher.update(text, "utf-8"), cipher.final()]);
+  return Buffer.concat([iv, Buffer.from(cipherText.toString("base64"), "utf-8")]).toString("base64");
+}
+
+function messageSignal(sn: number, overrides?: Record<string, unknown>) {
+  return {
+    s: 0,
+    sn,
+    d: {
+      channel_type: "GROUP",
+      type: 9,
+      target_id: "2000000001",
+      author_id: "3000000001",
+      content: `hello ${sn}`,
+      msg_id: `msg-${sn}`,
+      msg_timestamp: 1700000000000,
+      nonce: "",
+      extra: { type: 9, guild_id: "1000000001" },
+      verify_token: VERIFY_TOKEN,
+      ...overrides,
+    },
+  };
+}
+
+test("the challenge handshake echoes the challenge back", async (t) => {
+  const { events, post } = await startServer(t);
+
+  const res = await post(
+    JSON.stringify({
+      s: 0,
+      d: { type: 255, channel_type: "WEBHOOK_CHALLENGE", challenge: "abc123", verify_token: VERIFY_TOKEN },
+    }),
+  );
+
+  assert.equal(res.status, 200);
+  assert.deepEqual(await res.json(), { challenge: "abc123" });
+  assert.equal(events.length, 0);
+});
+
+test("a wrong verify_token is rejected", async (t) => {
+  const { events, post } = await startServer(t);
+
+  const res = await post(JSON.stringify(messageSignal(1, { verify_token: "someone-else" })));
+
+  assert.equal(res.status, 403);
+  assert.equal(events.length, 0);
+});
+
+test("an encrypted payload is decrypted with encryptKey", async (t) => {
+  const { events, post } = await startServer(t, ENCRYPT_KEY);
+
+  const res = await post(JSON.stringify({ encrypt: encrypt(JSON.stringify(messageSignal(1)), ENCRYPT_KEY) }));
+
+  assert.equal(res.status, 200);
+  assert.equal(events.length, 1);
+  assert.equal(events[0]!.content, "hello 1");
+  assert.equal("verify_token" in events[0]!, false);
+});
+
+test("an encrypted payload is rejected when no encryptKey is configured", async (t) => {
+  const { events, post } = await startServer(t);
+
+  const res = await post(JSON.stringify({ encrypt: encrypt(JSON.stringify(messageSignal(1)), ENCRYPT_KEY) }));
+
+  assert.equal(res.status, 400);
+  assert.equal(events.length, 0);
+});
+
+test("a zlib-compressed body is inflated", async (t) => {
+  const { events, post } = await startServer(t, ENCRYPT_KEY);
+
+  const plain = await post(deflateSync(JSON.stringify(messageSignal(1))));
+  const encrypted = await post(
+    deflateSync(JSON.stringify({ encrypt: encrypt(JSON.stringify(messageSignal(2)), ENCRYPT_KEY) })),
+  );
+
+  assert.equal(plain.status, 200);
+  assert.equal(encrypted.status, 200);
+  assert.deepEqual(
+    events.map((event) => event.content),
+    ["hello 1", "hello 2"],
+  );
+});
+
+test("a redelivered event is dispatched once per sn", async (t) => {
+  const { events, post } = await startServer(t);
+
+  for (const sn of [1, 1, 2, 1]) {
+    const res = await post(JSON.stringify(messageSignal(sn)));
+    // Redeliveries are still acknowledged, or KOOK keeps retrying them
+    assert.equal(res.status, 200);
+  }
+
+  assert.deepEqual(
+    events.map((event) => event.msg_id),
+    ["msg-1", "msg-2"],
+  );
+});
@@ -0,0 +1,84 @@
+import { test, type TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { FakeKookServer } from "./fake-server.js";
+import { createKookClient } from "../src/client.js";
+import { KookWSClient, type KookWSOptions } from "../src/ws-client.js";
+import type { KookEventData } from "../src/types.js";
+
+async function waitUntil(check: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error(`condition not met within ${timeoutMs}ms`);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+async function connect(t: TestContext, options?: Partial<KookWSOptions>) {
+  const server = new FakeKookServer();
+  await server.start();
+  const received: KookEventData[] = [];
+  const ws = new KookWSClient({
+    client: createKookClient("token", { baseUrl: server.baseUrl }),
+    onEvent: (event) => received.push(event),
+    log: () => {},
+    error: () => {},
+    ...options,
+  });
+  t.after(async () => {
+    ws.stop();
+    await server.stop();
+  });
+  await ws.start();
+  await server.waitForConnection();
+  return { server, ws, received };
+}
+
+test("events delivered out of order are dispatched in sn order", async (t) => {
+  const { server, ws, received } = await connect(t);
+
+  server.emitEvents(
+    [{ content: "one" }, { content: "two" }, { content: "three" }],
+    { order: [0, 2, 1] },
+  );
+
+  await waitUntil(() => received.length === 3);
+  assert.deepEqual(received.map((event) => event.content), ["one", "two", "three"]);
+  assert.deepEqual(ws.getStats(), { bufferedEvents: 0, skippedSn: 0, droppedEvents: 0 });
+});
+
+test("a missing sn is fetched again with RESUME", async (t) => {
+  const { server, ws, received } = await connect(t, { gapTimeoutMs: 100 });
+
+  // "two" is never delivered live
+  const sns = server.emitEvents(
+    [{ content: "one" }, { content: "two" }, { content: "three" }],
+    { order: [0, 2] },
+  );
+
+  const resume = await server.waitForSignal(4);
+  assert.equal((resume.d as { sn?: number }).sn, sns[0]);
+
+  await waitUntil(() => received.length === 3);
+  assert.deepEqual(received.map((event) => event.content), ["one", "two", "three"]);
+  // The replayed "three" is a duplicate of the parked one
+  assert.equal(ws.getStats().skippedSn, 0);
+});
+
+test("reconnecting resumes the session and replays missed events", async (t) => {
+  const { server, received } = await connect(t);
+
+  server.emitEvent({ content: "before" });
+  await waitUntil(() => received.length === 1);
+  const sessionId = server.sessionId;
+
+  server.disconnect();
+  server.emitEvent({ content: "while offline 1" });
+  server.emitEvent({ content: "while offline 2" });
+
+  await waitUntil(() => received.length === 3);
+  assert.equal(server.sessionId, sessionId);
+  assert.deepEqual(
+    received.map((event) => event.content),
+    ["before", "while offline 1", "while offline 2"],
+  );
+});